@@ -0,0 +1,129 @@
+import type { CurrencyConversionFailure } from "./types";
+
+const PREFIX = "[mongoose-currency-convert]";
+
+/** The currency pair and date a rate was requested for. */
+export interface RatePair {
+  fromCurrency: string;
+  toCurrency: string;
+  date: Date;
+}
+
+/** Base class of every error thrown or reported by the plugin. */
+export class CurrencyPluginError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(`${PREFIX} ${message}`, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown when the plugin is registered with invalid options. `option` names the offending option
+ * (`"rounding"`, `"rateValidation.min"`, …) and `field` the `sourcePath` of the field config it
+ * belongs to, if any.
+ */
+export class PluginConfigError extends CurrencyPluginError {
+  readonly option: string;
+  readonly field?: string;
+
+  constructor(message: string, option: string, field?: string) {
+    super(message);
+    this.option = option;
+    this.field = field;
+  }
+}
+
+/**
+ * A currency code that is not in ISO 4217 or `allowedCurrencyCodes`: a `toCurrency` at
+ * registration, or a code read from the document at `path`.
+ */
+export class InvalidCurrencyCodeError extends CurrencyPluginError {
+  readonly code: unknown;
+  readonly path?: string;
+
+  constructor(message: string, code: unknown, path?: string) {
+    super(message);
+    this.code = code;
+    this.path = path;
+  }
+}
+
+/** A source value (amount or currency) that is missing or cannot be used, at `path`. */
+export class MissingSourceError extends CurrencyPluginError {
+  readonly path: string;
+  readonly value: unknown;
+
+  constructor(message: string, path: string, value: unknown) {
+    super(message);
+    this.path = path;
+    this.value = value;
+  }
+}
+
+/** `getRate` threw; the original error is the `cause`. */
+export class RateFetchError extends CurrencyPluginError {
+  readonly pair: RatePair;
+
+  constructor(pair: RatePair, cause: unknown) {
+    super(`getRate failed for ${pair.fromCurrency}→${pair.toCurrency}`, { cause });
+    this.pair = pair;
+  }
+}
+
+/** `getRate` (or the cache) returned no rate: `undefined`, `null` or `NaN`. */
+export class InvalidRateError extends CurrencyPluginError {
+  readonly pair: RatePair;
+  readonly rate: unknown;
+
+  constructor(pair: RatePair, rate: unknown) {
+    super(`Invalid rate ${rate} for ${pair.fromCurrency}→${pair.toCurrency}`);
+    this.pair = pair;
+    this.rate = rate;
+  }
+}
+
+/** A rate, or the `fallbackRate` (`usedFallback`), outside the `rateValidation` bounds. */
+export class RateOutOfBoundsError extends CurrencyPluginError {
+  readonly pair: RatePair;
+  readonly rate: number;
+  readonly bounds: { min: number; max?: number };
+  readonly usedFallback: boolean;
+
+  constructor(
+    pair: RatePair,
+    rate: number,
+    bounds: { min: number; max?: number },
+    usedFallback = false,
+  ) {
+    super(
+      `${usedFallback ? "Fallback rate" : "Rate"} ${rate} is ${usedFallback ? "also " : ""}out of bounds [${bounds.min}, ${bounds.max ?? "∞"}] for ${pair.fromCurrency}→${pair.toCurrency}`,
+    );
+    this.pair = pair;
+    this.rate = rate;
+    this.bounds = bounds;
+    this.usedFallback = usedFallback;
+  }
+}
+
+/** The rate errors passed to `onError`. */
+export type RateError = RateFetchError | InvalidRateError | RateOutOfBoundsError;
+
+/**
+ * Rejects a save or update when `strict` fields fail to convert. `failures` lists every field
+ * that failed, with the reason.
+ */
+export class CurrencyConversionError extends CurrencyPluginError {
+  readonly failures: CurrencyConversionFailure[];
+
+  constructor(failures: CurrencyConversionFailure[]) {
+    super(
+      `conversion failed for ${failures
+        .map(
+          ({ field, targetPath, reason }) =>
+            `'${field}'${targetPath ? ` → '${targetPath}'` : ""} (${reason})`,
+        )
+        .join(", ")}`,
+    );
+    this.failures = failures;
+  }
+}
@@ -1,35 +1,333 @@
-import type { Schema, Document } from "mongoose";
+import type {
+  AnyBulkWriteOperation,
+  Document,
+  InsertManyOptions,
+  MongooseBulkWriteOptions,
+  Schema,
+} from "mongoose";
+import { Types } from "mongoose";
 
-import type { CurrencyPluginOptions } from "./types";
-import { defaultRound, getNestedValue, isValidCurrencyCode, setNestedValue } from "./utils/helpers";
+import {
+  CurrencyConversionError,
+  CurrencyPluginError,
+  InvalidCurrencyCodeError,
+  InvalidRateError,
+  MissingSourceError,
+  PluginConfigError,
+  type RateError,
+  RateFetchError,
+  RateOutOfBoundsError,
+} from "./errors";
+import type {
+  CurrencyConversionContext,
+  CurrencyConversionFailure,
+  CurrencyConversionReportEntry,
+  CurrencyFieldConfig,
+  CurrencyPluginLogDetails,
+  CurrencyPluginLogger,
+  CurrencyPluginOptions,
+  CurrencyTargetConfig,
+  LogLevel,
+  RoundingMode,
+  RoundingOptions,
+  TargetFieldNames,
+} from "./types";
+import {
+  defaultRound,
+  getMinorUnits,
+  getNestedValue,
+  getPathArray,
+  getUpdateValue,
+  isValidCurrencyCode,
+  isWildcardSegment,
+  replaceWildcard,
+  setNestedValue,
+  setUpdateValue,
+} from "./utils/helpers";
+import {
+  type Decimal,
+  formatDecimal,
+  isDecimal128,
+  isWholeDecimal,
+  multiplyDecimal,
+  parseDecimal,
+  roundDecimal,
+  shiftDecimal,
+} from "./utils/decimal";
+
+export {
+  CurrencyConversionError,
+  CurrencyPluginError,
+  InvalidCurrencyCodeError,
+  InvalidRateError,
+  MissingSourceError,
+  PluginConfigError,
+  type RateError,
+  RateFetchError,
+  RateOutOfBoundsError,
+  type RatePair,
+} from "./errors";
+
+/** How field paths are read from and written to the object being converted. */
+type PathAccessor = {
+  get: (obj: unknown, path: string) => unknown;
+  set: (obj: Record<string, unknown>, path: string, value: unknown) => void;
+};
+
+/** Update operators that change an amount relative to its stored value. */
+const ARITHMETIC_OPERATORS = ["$inc", "$mul"] as const;
+
+/** Pipeline stages whose literal values can be converted before the write. */
+const PIPELINE_SET_STAGES = ["$set", "$addFields"] as const;
+
+/** An array element segment of an update path: an index, `$`, `$[]` or `$[identifier]`. */
+const ARRAY_SEGMENT = /^(\d+|\$|\$\[\w*\])$/;
+
+const ROUNDING_MODES: readonly RoundingMode[] = [
+  "half-up",
+  "half-even",
+  "half-down",
+  "ceil",
+  "floor",
+  "truncate",
+];
+
+const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+/** Logs to the console, with the error (if any) after the message. */
+function consoleMethod(level: LogLevel): CurrencyPluginLogger[LogLevel] {
+  return (details, message) => {
+    if (details.error === undefined) console[level](`[mongoose-currency-convert] ${message}`);
+    else console[level](`[mongoose-currency-convert] ${message}:`, details.error);
+  };
+}
+
+const consoleLogger: CurrencyPluginLogger = {
+  debug: consoleMethod("debug"),
+  info: consoleMethod("info"),
+  warn: consoleMethod("warn"),
+  error: consoleMethod("error"),
+};
+
+/** Names an option in error messages: `option "round"`, or `"round" of field "price"`. */
+function describeOption(key: string, field?: string): string {
+  return field === undefined ? `option "${key}"` : `"${key}" of field "${field}"`;
+}
+
+/** A `PluginConfigError` for an option of the plugin, or of the field config `field`. */
+function optionError(key: string, field: string | undefined, problem: string): PluginConfigError {
+  return new PluginConfigError(`${describeOption(key, field)} ${problem}`, key, field);
+}
+
+/** Normalizes a `rounding` option to its object form, throwing when it is invalid. */
+function normalizeRounding(
+  rounding: RoundingMode | RoundingOptions | undefined,
+  field?: string,
+): RoundingOptions | undefined {
+  if (rounding === undefined) return undefined;
+  const normalized = typeof rounding === "string" ? { mode: rounding } : rounding;
+  if (!ROUNDING_MODES.includes(normalized?.mode)) {
+    throw optionError(
+      "rounding",
+      field,
+      `must be one of ${ROUNDING_MODES.map((mode) => `"${mode}"`).join(", ")}`,
+    );
+  }
+  const { precision } = normalized;
+  if (precision !== undefined && (!Number.isInteger(precision) || precision < 0)) {
+    throw optionError("rounding", field, "precision must be a non-negative integer");
+  }
+  return normalized;
+}
+
+/** Options that can be set on the plugin and overridden per field. */
+type ConversionOptions = Pick<
+  CurrencyFieldConfig,
+  | "getRate"
+  | "round"
+  | "rounding"
+  | "fallbackRate"
+  | "rateValidation"
+  | "dateTransform"
+  | "targetFields"
+  | "buildTarget"
+>;
+
+const TARGET_FIELD_KEYS = ["amount", "currency", "date"] as const;
+
+/**
+ * Validates the conversion options of the plugin, or of the field config whose `sourcePath` is
+ * `field`.
+ */
+function assertConversionOptions(options: ConversionOptions, field?: string): void {
+  for (const key of ["getRate", "round", "dateTransform", "buildTarget"] as const) {
+    if (options[key] !== undefined && typeof options[key] !== "function") {
+      throw optionError(key, field, "must be a function");
+    }
+  }
+
+  normalizeRounding(options.rounding, field);
+  if (options.round !== undefined && options.rounding !== undefined) {
+    throw optionError(
+      "round",
+      field,
+      `and ${describeOption("rounding", field)} cannot be combined`,
+    );
+  }
+
+  const { targetFields } = options;
+  if (targetFields !== undefined) {
+    if (typeof targetFields !== "object" || targetFields === null) {
+      throw optionError("targetFields", field, "must be an object");
+    }
+    for (const key of TARGET_FIELD_KEYS) {
+      const name = targetFields[key];
+      if (name !== undefined && (typeof name !== "string" || !name)) {
+        throw optionError(`targetFields.${key}`, field, "must be a non-empty string");
+      }
+    }
+  }
+
+  const { fallbackRate, rateValidation } = options;
+  if (fallbackRate !== undefined && (typeof fallbackRate !== "number" || fallbackRate < 0)) {
+    throw optionError("fallbackRate", field, "must be a non-negative number");
+  }
+
+  if (rateValidation !== undefined) {
+    if (typeof rateValidation !== "object" || rateValidation === null) {
+      throw optionError("rateValidation", field, "must be an object");
+    }
+    if (rateValidation.min !== undefined && typeof rateValidation.min !== "number") {
+      throw optionError("rateValidation.min", field, "must be a number");
+    }
+    if (rateValidation.max !== undefined && typeof rateValidation.max !== "number") {
+      throw optionError("rateValidation.max", field, "must be a number");
+    }
+    if (
+      rateValidation.min !== undefined &&
+      rateValidation.max !== undefined &&
+      rateValidation.min > rateValidation.max
+    ) {
+      throw optionError("rateValidation.min", field, 'must be <= "rateValidation.max"');
+    }
+  }
+}
+
+/**
+ * The targets of a field config: its `targets`, or the single `targetPath` / `toCurrency` /
+ * `toCurrencyPath` it declares.
+ */
+function targetsOf({
+  targets,
+  targetPath,
+  toCurrency,
+  toCurrencyPath,
+}: CurrencyFieldConfig): CurrencyTargetConfig[] {
+  return targets ?? [{ targetPath: targetPath as string, toCurrency, toCurrencyPath }];
+}
+
+function wildcardCount(path: string): number {
+  return getPathArray(path).filter(isWildcardSegment).length;
+}
+
+/** Documents (hydrated or plain) are walked as nested objects. */
+const documentPaths: PathAccessor = { get: getNestedValue, set: setNestedValue };
+
+/** Update operators such as `$set` may also use dotted keys (`{ "price.amount": 1 }`). */
+const updatePaths: PathAccessor = { get: getUpdateValue, set: setUpdateValue };
+
+/** An update object (`{ $set: … }`, plain values, …) or an aggregation pipeline. */
+type UpdateDocument = Record<string, unknown> | unknown[];
+
+/** An object to convert, together with the way its paths are addressed. */
+type ConversionTarget = {
+  doc: Record<string, unknown>;
+  paths: PathAccessor;
+  /** Field configs to convert; defaults to every configured field. */
+  fields?: CurrencyFieldConfig[];
+  /** Passed to `when` predicates; defaults to `"save"`. */
+  operation?: CurrencyConversionContext["operation"];
+  /** Receives an entry per field target; see `getConversionReport`. */
+  report?: CurrencyConversionReportEntry[];
+};
+
+/** Where the outcome of converting one target is recorded. */
+type ConversionOutcome = {
+  /** Failures of `strict` fields, shared by the whole batch. */
+  failures: CurrencyConversionFailure[];
+  report?: CurrencyConversionReportEntry[];
+};
 
 /**
- * Mongoose plugin that automatically converts currency fields on save and update operations.
+ * A conversion target paired with a callback that writes the conversions back to wherever the
+ * object came from (a hydrated document, an update operator, …).
+ */
+type ConversionPayload = ConversionTarget & {
+  commit: (conversions: Map<string, unknown>) => void;
+};
+
+/** The report of the last conversion of each document or update query. */
+const conversionReports = new WeakMap<object, CurrencyConversionReportEntry[]>();
+
+/**
+ * Starts a new report for a document or query, replacing the one of its previous conversion.
+ * Hydrated documents also get it as `$locals.currencyConversionReport`.
+ */
+function startReport(owner: object): CurrencyConversionReportEntry[] {
+  const report: CurrencyConversionReportEntry[] = [];
+  conversionReports.set(owner, report);
+  const { $locals } = owner as Partial<Document>;
+  if ($locals) $locals.currencyConversionReport = report;
+  return report;
+}
+
+/**
+ * Returns the conversion report of the last save of a document, or of an update or replace query,
+ * with an entry per field target (or per skipped field). `undefined` if the plugin has not
+ * converted it.
+ */
+export function getConversionReport(
+  docOrQuery: object,
+): CurrencyConversionReportEntry[] | undefined {
+  return conversionReports.get(docOrQuery);
+}
+
+/**
+ * Mongoose plugin that automatically converts currency fields on save, `insertMany`, `bulkWrite`,
+ * update and replace operations.
  *
  * ## Error handling policy
  *
  * The plugin uses a three-tier strategy depending on when and where an error occurs:
  *
- * 1. **Initialization errors** (`throw`): Missing or invalid required options (`fields`, `getRate`)
- *    cause an immediate `Error` to be thrown when the plugin is registered. These are
- *    programmer errors and must be fixed before the application starts.
+ * 1. **Initialization errors** (`throw`): Missing or invalid options (`fields`, `getRate`, …)
+ *    cause an immediate `PluginConfigError` (`InvalidCurrencyCodeError` for a `toCurrency`) to be
+ *    thrown when the plugin is registered. These are programmer errors and must be fixed before
+ *    the application starts.
  *
- * 2. **Field validation warnings** (`console.warn` + skip): Invalid field configurations
+ * 2. **Field validation warnings** (logged as warnings + skip): Invalid field configurations
  *    detected at conversion time (missing `targetPath`, invalid currency code, non-numeric
  *    `amount`, invalid date) are logged as warnings and the field is silently skipped.
  *    The document is still saved with the remaining conversions applied.
  *
- * 3. **Rate fetch errors** (`onError` callback or `console.error`): Errors thrown by `getRate`
- *    or invalid rates returned by it are passed to the `onError` callback if provided,
- *    otherwise logged via `console.error`. If `fallbackRate` is set it is used instead.
+ * 3. **Rate fetch errors** (`onError` callback or logged as errors): Errors thrown by `getRate`
+ *    (`RateFetchError`), or invalid (`InvalidRateError`) and out-of-bounds
+ *    (`RateOutOfBoundsError`) rates returned by it are passed to the `onError` callback if provided,
+ *    otherwise logged. If `fallbackRate` is set it is used instead.
  *    If `rollbackOnError` is `true`, all previously converted fields in that document are
  *    reverted before the save continues.
+ *
+ * With `strict` (plugin-wide or per field), the problems of tiers 2 and 3 are still logged, but
+ * the save or update is then rejected with a `CurrencyConversionError` listing every failure.
+ *
+ * Warnings and errors are written to the `logger` option (the console by default), filtered by
+ * `logLevel`.
  */
 export function currencyConversionPlugin(schema: Schema, options: CurrencyPluginOptions) {
   const {
     fields,
     getRate,
-    round = defaultRound,
+    round: pluginRound = defaultRound,
     allowedCurrencyCodes,
     onError,
     onSuccess,
@@ -39,133 +337,470 @@ export function currencyConversionPlugin(schema: Schema, options: CurrencyPlugin
     dateTransform,
     concurrency = Infinity,
     rateValidation,
+    loadMissingFields,
+    perDocumentConversion,
+    allowNumericStrings,
+    metadata,
+    strict,
+    logger = consoleLogger,
+    logLevel = "warn",
+    validateSources,
   } = options;
+  const rounding = normalizeRounding(options.rounding);
 
   if (!fields || !Array.isArray(fields) || fields.length === 0) {
-    throw new Error('[mongoose-currency-convert] option "fields" must be a non-empty array');
+    throw optionError("fields", undefined, "must be a non-empty array");
   }
 
   if (typeof getRate !== "function") {
-    throw new Error('[mongoose-currency-convert] option "getRate" must be a function');
+    throw optionError("getRate", undefined, "must be a function");
   }
 
-  if (options.round !== undefined && typeof options.round !== "function") {
-    throw new Error('[mongoose-currency-convert] option "round" must be a function');
-  }
+  assertConversionOptions(options);
 
   if (options.onError !== undefined && typeof options.onError !== "function") {
-    throw new Error('[mongoose-currency-convert] option "onError" must be a function');
+    throw optionError("onError", undefined, "must be a function");
   }
 
   if (options.onSuccess !== undefined && typeof options.onSuccess !== "function") {
-    throw new Error('[mongoose-currency-convert] option "onSuccess" must be a function');
-  }
-
-  if (options.dateTransform !== undefined && typeof options.dateTransform !== "function") {
-    throw new Error('[mongoose-currency-convert] option "dateTransform" must be a function');
+    throw optionError("onSuccess", undefined, "must be a function");
   }
 
+  // Fields with their own `getRate` cache under a prefix, numbered in field order so the keys are
+  // the same in every process sharing the cache
+  const providerPrefixes = new Map<CurrencyPluginOptions["getRate"], string>([[getRate, ""]]);
   for (const field of fields) {
-    if (!isValidCurrencyCode(field.toCurrency, allowedCurrencyCodes)) {
-      throw new Error(
-        `[mongoose-currency-convert] invalid toCurrency "${field.toCurrency}" in field config`,
-      );
+    if (
+      field.targets !== undefined &&
+      (!Array.isArray(field.targets) || field.targets.length === 0)
+    ) {
+      throw optionError("targets", field.sourcePath, "must be a non-empty array");
+    }
+    assertConversionOptions(field, field.sourcePath);
+    if (field.getRate && !providerPrefixes.has(field.getRate)) {
+      providerPrefixes.set(field.getRate, `${providerPrefixes.size}:`);
+    }
+    if (field.unit !== undefined && field.unit !== "major" && field.unit !== "minor") {
+      throw optionError("unit", field.sourcePath, 'must be "major" or "minor"');
+    }
+    for (const { targetPath, toCurrency, toCurrencyPath } of targetsOf(field)) {
+      // A dynamic target currency is validated when it is read from the document
+      if (
+        (toCurrency !== undefined || !toCurrencyPath) &&
+        !isValidCurrencyCode(toCurrency as string, allowedCurrencyCodes)
+      ) {
+        throw new InvalidCurrencyCodeError(
+          `invalid toCurrency "${toCurrency}" in field config`,
+          toCurrency,
+        );
+      }
+      if (wildcardCount(targetPath ?? "") !== wildcardCount(field.sourcePath)) {
+        throw new PluginConfigError(
+          `targetPath "${targetPath}" must use the same number of wildcard segments as sourcePath "${field.sourcePath}"`,
+          "targetPath",
+          field.sourcePath,
+        );
+      }
     }
   }
 
   if (
-    options.fallbackRate !== undefined &&
-    (typeof options.fallbackRate !== "number" || options.fallbackRate < 0)
+    typeof logger !== "object" ||
+    logger === null ||
+    LOG_LEVELS.some((level) => level !== "silent" && typeof logger[level] !== "function")
   ) {
-    throw new Error(
-      '[mongoose-currency-convert] option "fallbackRate" must be a non-negative number',
+    throw optionError("logger", undefined, "must have debug, info, warn and error methods");
+  }
+
+  if (!LOG_LEVELS.includes(logLevel)) {
+    throw optionError(
+      "logLevel",
+      undefined,
+      `must be one of ${LOG_LEVELS.map((level) => `"${level}"`).join(", ")}`,
     );
   }
+  const logThreshold = LOG_LEVELS.indexOf(logLevel);
 
   if (
     options.concurrency !== undefined &&
     (typeof options.concurrency !== "number" || options.concurrency < 1)
   ) {
-    throw new Error('[mongoose-currency-convert] option "concurrency" must be a number >= 1');
+    throw optionError("concurrency", undefined, "must be a number >= 1");
   }
 
-  if (rateValidation !== undefined) {
-    if (typeof rateValidation !== "object" || rateValidation === null) {
-      throw new Error('[mongoose-currency-convert] option "rateValidation" must be an object');
-    }
-    if (rateValidation.min !== undefined && typeof rateValidation.min !== "number") {
-      throw new Error('[mongoose-currency-convert] option "rateValidation.min" must be a number');
+  type WorkItem = {
+    field: (typeof fields)[number];
+    target: CurrencyTargetConfig;
+    /** `target.toCurrency`, or the currency read from `target.toCurrencyPath`. */
+    toCurrency: string;
+    /** A number, or the exact decimal string of a Decimal128 / numeric-string amount. */
+    amount: number | string;
+    fromCurrency: string;
+    conversionDate: Date;
+    cacheKey: string;
+    /** `cacheKey` plus the field's fallback and bounds: work items sharing it share a result. */
+    rateKey: string;
+  };
+
+  /** A rate as read by `loadRate`; `cacheHit` tells whether it came from the cache. */
+  type LoadedRate = { rate: number | undefined; cacheHit: boolean };
+
+  type RateResult =
+    | { success: true; rate: number; usedFallback: boolean; cacheHit: boolean; fetchedAt: Date }
+    | { success: false; error: RateError };
+
+  /**
+   * Expands a field config whose paths contain wildcards into one config per array element (`*`)
+   * or Map entry (`$*`) present in `doc`, e.g. `items.*.price.amount` into `items.0.price.amount`,
+   * `items.1.price.amount`, … Updates also contribute the keys they set below the wildcard,
+   * including positional segments (`$`, `$[]`, `$[id]`).
+   */
+  function expandWildcards(
+    field: CurrencyFieldConfig,
+    doc: Record<string, unknown>,
+    paths: PathAccessor,
+  ): CurrencyFieldConfig[] {
+    const parts = getPathArray(field.sourcePath);
+    const index = parts.findIndex(isWildcardSegment);
+    if (index === -1) return [field];
+
+    const isMap = parts[index] === "$*";
+    const containerPath = parts.slice(0, index).join(".");
+    const segments = new Set<string>();
+    const container = paths.get(doc, containerPath);
+    if (isMap && container instanceof Map) {
+      for (const key of container.keys()) {
+        segments.add(String(key));
+      }
+    } else if (isMap && container && typeof container === "object") {
+      for (const key of Object.keys(container)) {
+        segments.add(key);
+      }
+    } else if (!isMap && Array.isArray(container)) {
+      for (let i = 0; i < container.length; i++) {
+        segments.add(String(i));
+      }
     }
-    if (rateValidation.max !== undefined && typeof rateValidation.max !== "number") {
-      throw new Error('[mongoose-currency-convert] option "rateValidation.max" must be a number');
+    if (paths === updatePaths) {
+      for (const key of Object.keys(doc)) {
+        if (!key.startsWith(`${containerPath}.`)) continue;
+        const [segment] = getPathArray(key.slice(containerPath.length + 1));
+        if (isMap || ARRAY_SEGMENT.test(segment)) segments.add(segment);
+      }
     }
+
+    return [...segments].flatMap((segment) =>
+      expandWildcards(
+        {
+          ...field,
+          sourcePath: replaceWildcard(field.sourcePath, segment),
+          currencyPath: replaceWildcard(field.currencyPath, segment),
+          datePath: field.datePath && replaceWildcard(field.datePath, segment),
+          targetPath: undefined,
+          toCurrency: undefined,
+          toCurrencyPath: undefined,
+          targets: targetsOf(field).map((target) => ({
+            ...target,
+            targetPath: replaceWildcard(target.targetPath, segment),
+            toCurrencyPath:
+              target.toCurrencyPath && replaceWildcard(target.toCurrencyPath, segment),
+          })),
+        },
+        doc,
+        paths,
+      ),
+    );
+  }
+
+  /**
+   * Maps array element segments to `0`, which is how the schema resolves array paths. Map keys
+   * resolve as they are.
+   */
+  function toSchemaPath(path: string): string {
+    return getPathArray(path)
+      .map((segment) => (ARRAY_SEGMENT.test(segment) ? "0" : segment))
+      .join(".");
+  }
+
+  /**
+   * The sub-field names of a field's targets and its `buildTarget`, if any. Field-level
+   * `targetFields` replace a plugin-level `buildTarget`.
+   */
+  function targetShapeOf(field: CurrencyFieldConfig): {
+    names: Required<TargetFieldNames>;
+    buildTarget?: CurrencyFieldConfig["buildTarget"];
+  } {
+    const [amount, currency, date] = TARGET_FIELD_KEYS.map(
+      (key) => field.targetFields?.[key] ?? options.targetFields?.[key] ?? key,
+    );
+    return {
+      names: { amount, currency, date },
+      buildTarget: field.buildTarget ?? (field.targetFields ? undefined : options.buildTarget),
+    };
+  }
+
+  function isDecimalPath(path: string): boolean {
+    return schema.path(toSchemaPath(path))?.instance === "Decimal128";
+  }
+
+  /**
+   * Reads a source amount. Numbers are used as they are; Decimal128 values, and numeric strings
+   * on Decimal128 paths or with `allowNumericStrings`, are kept as exact decimal strings. Strings
+   * a Decimal128 cannot hold are not numeric.
+   */
+  function readAmount(value: unknown, sourcePath: string): number | string | undefined {
+    if (typeof value === "number") return Number.isNaN(value) ? undefined : value;
+    const decimal = isDecimal128(value)
+      ? value.toString()
+      : typeof value === "string" && (allowNumericStrings || isDecimalPath(sourcePath))
+        ? value.trim()
+        : undefined;
+    return decimal !== undefined && parseDecimal(decimal) ? decimal : undefined;
+  }
+
+  /** Whether an amount read by `readAmount` is a whole number, as minor-unit amounts must be. */
+  function isWholeAmount(amount: number | string): boolean {
+    if (typeof amount === "number") return Number.isInteger(amount);
+    return isWholeDecimal(parseDecimal(amount) as Decimal);
+  }
+
+  /**
+   * Multiplies the amount of a work item by `rate`. Unless a custom `round` is given, results are
+   * rounded to the minor units of the target currency (JPY 0, EUR 2, KWD 3). Decimal amounts,
+   * Decimal128 targets and `rounding` strategies use exact decimal arithmetic (a custom `round`
+   * receives the exact product as a number). Minor-unit fields are scaled by the ISO 4217
+   * exponents of both currencies and rounded to a whole minor unit.
+   */
+  function convertAmount(
+    { field, target, fromCurrency, toCurrency, amount }: WorkItem,
+    rate: number,
+  ): { value: unknown; amount: number } {
+    const minorUnits = field.unit === "minor";
+    const round = field.round ?? pluginRound;
+    const fieldRounding =
+      normalizeRounding(field.rounding, field.sourcePath) ?? (field.round ? undefined : rounding);
+    const decimalTarget = isDecimalPath(
+      `${target.targetPath}.${targetShapeOf(field).names.amount}`,
+    );
+    const exactAmount = parseDecimal(String(amount));
+    const exactRate = parseDecimal(String(rate));
     if (
-      rateValidation.min !== undefined &&
-      rateValidation.max !== undefined &&
-      rateValidation.min > rateValidation.max
+      !exactAmount ||
+      !exactRate ||
+      (!minorUnits && !fieldRounding && typeof amount === "number" && !decimalTarget)
     ) {
-      throw new Error(
-        '[mongoose-currency-convert] option "rateValidation.min" must be <= "rateValidation.max"',
+      const product = Number(amount) * rate;
+      const converted =
+        round === defaultRound ? defaultRound(product, getMinorUnits(toCurrency)) : round(product);
+      return { value: converted, amount: converted };
+    }
+
+    let rounded: string;
+    if (minorUnits) {
+      const major = shiftDecimal(exactAmount, -getMinorUnits(fromCurrency));
+      const product = multiplyDecimal(major, exactRate);
+      rounded = formatDecimal(
+        roundDecimal(shiftDecimal(product, getMinorUnits(toCurrency)), 0, fieldRounding?.mode),
       );
+    } else {
+      const product: Decimal = multiplyDecimal(exactAmount, exactRate);
+      if (fieldRounding) {
+        const precision = fieldRounding.precision ?? getMinorUnits(toCurrency);
+        rounded = formatDecimal(roundDecimal(product, precision, fieldRounding.mode));
+      } else if (round === defaultRound) {
+        rounded = formatDecimal(roundDecimal(product, getMinorUnits(toCurrency)));
+      } else {
+        rounded = formatDecimal(
+          parseDecimal(String(round(Number(formatDecimal(product))))) ?? product,
+        );
+      }
     }
+    return {
+      value: decimalTarget ? Types.Decimal128.fromString(rounded) : Number(rounded),
+      amount: Number(rounded),
+    };
   }
 
-  async function applyCurrencyConversion(
-    doc: Record<string, unknown>,
-  ): Promise<Map<string, unknown>> {
-    const results = new Map<string, unknown>();
+  function log(level: LogLevel, message: string, details: CurrencyPluginLogDetails = {}): void {
+    if (LOG_LEVELS.indexOf(level) >= logThreshold) logger[level](details, message);
+  }
 
-    type WorkItem = {
-      field: (typeof fields)[number];
-      amount: number;
-      fromCurrency: string;
-      conversionDate: Date;
-      cacheKey: string;
-    };
+  /**
+   * Records a problem with a field: in the report when it skips the field (or target) or makes it
+   * fail, and as a failure when the field is `strict`. Problems without a `status` (an invalid
+   * date, …) do not stop the conversion.
+   */
+  function reportFailure(
+    { failures, report }: ConversionOutcome,
+    field: CurrencyFieldConfig,
+    {
+      status,
+      ...failure
+    }: Omit<CurrencyConversionFailure, "field"> & { status?: "skipped" | "failed" },
+  ): void {
+    const entry = { field: field.sourcePath, ...failure };
+    if (status) report?.push({ ...entry, status });
+    if (field.strict ?? strict) failures.push(entry);
+  }
+
+  /** Evaluates the `when` predicate of a field; a throwing predicate skips the field. */
+  function shouldConvert(
+    field: CurrencyFieldConfig,
+    { doc, paths, operation = "save" }: ConversionTarget,
+    outcome: ConversionOutcome,
+  ): boolean {
+    if (!field.when) return true;
+    try {
+      if (field.when(doc, { operation, get: (path) => paths.get(doc, path) }) === true) return true;
+      outcome.report?.push({
+        field: field.sourcePath,
+        status: "skipped",
+        reason: "when() returned false",
+      });
+      return false;
+    } catch (whenErr) {
+      log("warn", `when() threw for field '${field.sourcePath}', skipping`, {
+        field: field.sourcePath,
+        error: whenErr,
+      });
+      reportFailure(outcome, field, { status: "skipped", reason: "when() threw", error: whenErr });
+      return false;
+    }
+  }
+
+  /** Resolves the work items of a target, recording the fields it skips in `outcome`. */
+  function collectWorkItems(
+    conversionTarget: ConversionTarget,
+    outcome: ConversionOutcome,
+  ): WorkItem[] {
+    const { doc, paths, fields: targetFields = fields } = conversionTarget;
     const workItems: WorkItem[] = [];
+    const convertible = targetFields.filter((field) =>
+      shouldConvert(field, conversionTarget, outcome),
+    );
 
-    for (const field of fields) {
-      const { sourcePath, currencyPath, datePath, targetPath, toCurrency } = field;
+    for (const field of convertible.flatMap((config) => expandWildcards(config, doc, paths))) {
+      const { sourcePath, currencyPath, datePath } = field;
 
-      if (!targetPath) {
-        console.warn(
-          `[mongoose-currency-convert] WARNING: 'targetPath' is required in field config`,
-        );
+      const targets = targetsOf(field).filter(({ targetPath }) => {
+        if (!targetPath) {
+          log("warn", "'targetPath' is required in field config", { field: sourcePath });
+          reportFailure(outcome, field, {
+            status: "skipped",
+            reason: "missing targetPath",
+            error: new PluginConfigError(
+              "'targetPath' is required in field config",
+              "targetPath",
+              sourcePath,
+            ),
+          });
+          return false;
+        }
+        const { names, buildTarget } = targetShapeOf(field);
+        const schemaPath = toSchemaPath(targetPath);
+        if (
+          buildTarget
+            ? schema.pathType(schemaPath) === "adhocOrUndefined"
+            : !schema.path(`${schemaPath}.${names.amount}`)
+        ) {
+          log("warn", `targetPath '${targetPath}' does not exist in schema`, {
+            field: sourcePath,
+            targetPath,
+          });
+          reportFailure(outcome, field, {
+            status: "skipped",
+            reason: "targetPath does not exist in schema",
+            targetPath,
+            error: new PluginConfigError(
+              `targetPath '${targetPath}' does not exist in schema`,
+              "targetPath",
+              sourcePath,
+            ),
+          });
+          return false;
+        }
+        return true;
+      });
+      if (targets.length === 0) continue;
+
+      const rawAmount = paths.get(doc, sourcePath);
+      if (rawAmount == null) {
+        outcome.report?.push({ field: sourcePath, status: "skipped", reason: "no amount" });
         continue;
       }
-
-      if (!schema.path(`${targetPath}.amount`)) {
-        console.warn(
-          `[mongoose-currency-convert] WARNING: targetPath '${targetPath}' does not exist in schema`,
-        );
+      const amount = readAmount(rawAmount, sourcePath);
+      if (amount === undefined) {
+        log("warn", `non-numeric amount at path '${sourcePath}': (${typeof rawAmount})`, {
+          field: sourcePath,
+          path: sourcePath,
+        });
+        reportFailure(outcome, field, {
+          status: "skipped",
+          reason: "non-numeric amount",
+          error: new MissingSourceError(
+            `non-numeric amount at path '${sourcePath}'`,
+            sourcePath,
+            rawAmount,
+          ),
+        });
         continue;
       }
 
-      const amount = getNestedValue(doc, sourcePath);
-      if (amount == null) continue;
-      if (typeof amount !== "number" || Number.isNaN(amount)) {
-        console.warn(
-          `[mongoose-currency-convert] WARNING: non-numeric amount at path '${sourcePath}': (${typeof amount})`,
-        );
+      // A fraction of a minor unit usually means the amount was stored in major units
+      if (field.unit === "minor" && !isWholeAmount(amount)) {
+        log("warn", `non-integer amount at minor-unit path '${sourcePath}': ${amount}`, {
+          field: sourcePath,
+          path: sourcePath,
+        });
+        reportFailure(outcome, field, {
+          status: "skipped",
+          reason: "non-integer minor-unit amount",
+          error: new MissingSourceError(
+            `non-integer amount at minor-unit path '${sourcePath}'`,
+            sourcePath,
+            rawAmount,
+          ),
+        });
         continue;
       }
 
-      const fromCurrency = getNestedValue(doc, currencyPath);
+      const fromCurrency = paths.get(doc, currencyPath);
       if (typeof fromCurrency !== "string" || !fromCurrency) {
-        console.warn(
-          `[mongoose-currency-convert] Missing or invalid source currency at path: ${currencyPath}`,
-        );
+        log("warn", `Missing or invalid source currency at path: ${currencyPath}`, {
+          field: sourcePath,
+          path: currencyPath,
+        });
+        reportFailure(outcome, field, {
+          status: "skipped",
+          reason: `missing or invalid source currency at '${currencyPath}'`,
+          error: new MissingSourceError(
+            `missing or invalid source currency at path '${currencyPath}'`,
+            currencyPath,
+            fromCurrency,
+          ),
+        });
         continue;
       }
 
       if (!isValidCurrencyCode(fromCurrency, allowedCurrencyCodes)) {
-        console.warn(`[mongoose-currency-convert] Invalid source currency code: ${fromCurrency}`);
+        log("warn", `Invalid source currency code: ${fromCurrency}`, {
+          field: sourcePath,
+          path: currencyPath,
+          fromCurrency,
+        });
+        reportFailure(outcome, field, {
+          status: "skipped",
+          reason: `invalid source currency code '${fromCurrency}'`,
+          error: new InvalidCurrencyCodeError(
+            `invalid source currency code "${fromCurrency}" at path '${currencyPath}'`,
+            fromCurrency,
+            currencyPath,
+          ),
+        });
         continue;
       }
 
-      if (fromCurrency.toUpperCase() === toCurrency.toUpperCase()) continue;
-
-      const dateValue = datePath ? getNestedValue(doc, datePath) : undefined;
+      const dateValue = datePath ? paths.get(doc, datePath) : undefined;
       let conversionDate =
         dateValue &&
         (typeof dateValue === "string" ||
@@ -174,111 +809,273 @@ export function currencyConversionPlugin(schema: Schema, options: CurrencyPlugin
           ? new Date(dateValue)
           : new Date();
       if (Number.isNaN(conversionDate.getTime())) {
-        console.warn(
-          `[mongoose-currency-convert] Invalid date value at path '${datePath}', using current date`,
-        );
+        log("warn", `Invalid date value at path '${datePath}', using current date`, {
+          field: sourcePath,
+          path: datePath,
+        });
+        reportFailure(outcome, field, {
+          reason: `invalid date at '${datePath}'`,
+          error: new MissingSourceError(
+            `invalid date at path '${datePath}'`,
+            datePath as string,
+            dateValue,
+          ),
+        });
         conversionDate = new Date();
       }
 
-      if (dateTransform) {
+      const transform = field.dateTransform ?? dateTransform;
+      if (transform) {
         try {
-          conversionDate = dateTransform(conversionDate);
+          conversionDate = transform(conversionDate);
         } catch (transformErr) {
-          console.warn(
-            `[mongoose-currency-convert] dateTransform threw for field '${sourcePath}', using original date:`,
-            transformErr,
-          );
+          log("warn", `dateTransform threw for field '${sourcePath}', using original date`, {
+            field: sourcePath,
+            date: conversionDate,
+            error: transformErr,
+          });
+          reportFailure(outcome, field, { reason: "dateTransform threw", error: transformErr });
         }
       }
 
-      const cacheKey = `${fromCurrency.toUpperCase()}_${toCurrency.toUpperCase()}_${conversionDate.toISOString().slice(0, 10)}`;
-      workItems.push({ field, amount, fromCurrency, conversionDate, cacheKey });
+      for (const target of targets) {
+        const { toCurrencyPath } = target;
+        const toCurrency = (toCurrencyPath && paths.get(doc, toCurrencyPath)) || target.toCurrency;
+        if (
+          typeof toCurrency !== "string" ||
+          !isValidCurrencyCode(toCurrency, allowedCurrencyCodes)
+        ) {
+          log("warn", `Missing or invalid target currency at path: ${toCurrencyPath}`, {
+            field: sourcePath,
+            targetPath: target.targetPath,
+            path: toCurrencyPath,
+            fromCurrency,
+          });
+          reportFailure(outcome, field, {
+            status: "skipped",
+            reason: `missing or invalid target currency at '${toCurrencyPath}'`,
+            targetPath: target.targetPath,
+            error: new InvalidCurrencyCodeError(
+              `missing or invalid target currency "${toCurrency}" at path '${toCurrencyPath}'`,
+              toCurrency,
+              toCurrencyPath,
+            ),
+          });
+          continue;
+        }
+
+        if (fromCurrency.toUpperCase() === toCurrency.toUpperCase()) {
+          outcome.report?.push({
+            field: sourcePath,
+            targetPath: target.targetPath,
+            status: "skipped",
+            reason: "same currency",
+            fromCurrency,
+            toCurrency,
+          });
+          continue;
+        }
+        const {
+          getRate: provider,
+          fallbackRate: fallback,
+          rateValidation: bounds,
+        } = rateOptionsOf(field);
+        const cacheKey = `${providerPrefixes.get(provider)}${fromCurrency.toUpperCase()}_${toCurrency.toUpperCase()}_${conversionDate.toISOString().slice(0, 10)}`;
+        const rateKey = `${cacheKey}|${fallback ?? ""}|${bounds?.min ?? ""}|${bounds?.max ?? ""}`;
+        workItems.push({
+          field,
+          target,
+          toCurrency,
+          amount,
+          fromCurrency,
+          conversionDate,
+          cacheKey,
+          rateKey,
+        });
+      }
     }
 
-    type RateResult =
-      | { success: true; rate: number; usedFallback: boolean }
-      | { success: false; error: unknown };
+    return workItems;
+  }
 
-    async function fetchRate({
-      field,
-      fromCurrency,
-      conversionDate,
-      cacheKey,
-    }: WorkItem): Promise<RateResult> {
+  /** The rate options of a field: its own overrides, falling back to the plugin-level values. */
+  function rateOptionsOf(field: CurrencyFieldConfig) {
+    return {
+      getRate: field.getRate ?? getRate,
+      fallbackRate: field.fallbackRate ?? fallbackRate,
+      rateValidation: field.rateValidation ?? rateValidation,
+    };
+  }
+
+  /** Reads a rate from the cache, or from the field's provider (caching the result). */
+  async function loadRate({
+    field,
+    toCurrency,
+    fromCurrency,
+    conversionDate,
+    cacheKey,
+  }: WorkItem): Promise<LoadedRate> {
+    let rate: number | undefined;
+    if (cache) {
       try {
-        let rate: number | undefined;
-        let usedFallback = false;
-        if (cache) {
-          try {
-            rate = await cache.get(cacheKey);
-          } catch (cacheErr) {
-            console.warn("[mongoose-currency-convert] cache.get() failed:", cacheErr);
-          }
-        }
+        rate = await cache.get(cacheKey);
+      } catch (cacheErr) {
+        log("warn", "cache.get() failed", {
+          fromCurrency,
+          toCurrency,
+          date: conversionDate,
+          error: cacheErr,
+        });
+      }
+    }
 
-        if (rate === undefined) {
-          rate = await getRate(fromCurrency, field.toCurrency, conversionDate);
-          if (cache && rate !== undefined && !Number.isNaN(rate)) {
-            try {
-              await cache.set(cacheKey, rate);
-            } catch (cacheErr) {
-              console.warn("[mongoose-currency-convert] cache.set() failed:", cacheErr);
-            }
-          }
-        }
+    if (rate !== undefined) return { rate, cacheHit: true };
 
-        if (rate == null || Number.isNaN(rate)) {
-          if (typeof fallbackRate === "number") {
-            rate = fallbackRate;
-            usedFallback = true;
-          } else {
-            throw new Error("Invalid rate");
-          }
-        }
+    rate = await rateOptionsOf(field).getRate(fromCurrency, toCurrency, conversionDate);
+    if (cache && rate !== undefined && !Number.isNaN(rate)) {
+      try {
+        await cache.set(cacheKey, rate);
+      } catch (cacheErr) {
+        log("warn", "cache.set() failed", {
+          fromCurrency,
+          toCurrency,
+          date: conversionDate,
+          error: cacheErr,
+        });
+      }
+    }
+    return { rate, cacheHit: false };
+  }
 
-        if (rateValidation) {
-          const { min = Number.EPSILON, max } = rateValidation;
-          if (rate < min || (max !== undefined && rate > max)) {
-            throw new Error(
-              `Rate ${rate} is out of bounds [${min}, ${max ?? "∞"}] for ${fromCurrency}→${field.toCurrency}`,
-            );
-          }
-        }
+  /**
+   * Loads the rate of a work item and checks it against the field's bounds. When it cannot be
+   * used, the field's `fallbackRate` is used instead, provided it is within the bounds.
+   */
+  async function fetchRate(
+    item: WorkItem,
+    load: (item: WorkItem) => Promise<LoadedRate>,
+  ): Promise<RateResult> {
+    const { field, toCurrency, fromCurrency, conversionDate } = item;
+    const { fallbackRate, rateValidation } = rateOptionsOf(field);
+    const pair = { fromCurrency, toCurrency, date: conversionDate };
+    const bounds = rateValidation && {
+      ...rateValidation,
+      min: rateValidation.min ?? Number.EPSILON,
+    };
+    const isOutOfBounds = (rate: number) =>
+      bounds !== undefined &&
+      (rate < bounds.min || (bounds.max !== undefined && rate > bounds.max));
 
-        return { success: true, rate, usedFallback };
-      } catch (error) {
-        if (typeof fallbackRate === "number") {
-          if (rateValidation) {
-            const { min = Number.EPSILON, max } = rateValidation;
-            if (fallbackRate < min || (max !== undefined && fallbackRate > max)) {
-              return {
-                success: false,
-                error: new Error(
-                  `Fallback rate ${fallbackRate} is also out of bounds [${min}, ${max ?? "∞"}] for ${fromCurrency}→${field.toCurrency}`,
-                ),
-              };
-            }
-          }
-          return { success: true, rate: fallbackRate, usedFallback: true };
-        }
-        return { success: false, error };
+    let error: RateError;
+    try {
+      const { rate, cacheHit } = await load(item);
+      if (rate == null || Number.isNaN(rate)) {
+        error = new InvalidRateError(pair, rate);
+      } else if (bounds && isOutOfBounds(rate)) {
+        error = new RateOutOfBoundsError(pair, rate, bounds);
+      } else {
+        return { success: true, rate, usedFallback: false, cacheHit, fetchedAt: new Date() };
       }
+    } catch (cause) {
+      error = new RateFetchError(pair, cause);
+    }
+
+    if (typeof fallbackRate !== "number") return { success: false, error };
+    if (bounds && isOutOfBounds(fallbackRate)) {
+      return { success: false, error: new RateOutOfBoundsError(pair, fallbackRate, bounds, true) };
+    }
+    log("info", `Using fallbackRate for ${fromCurrency}→${toCurrency}`, {
+      ...pair,
+      rate: fallbackRate,
+      error,
+    });
+    return {
+      success: true,
+      rate: fallbackRate,
+      usedFallback: true,
+      cacheHit: false,
+      fetchedAt: new Date(),
+    };
+  }
+
+  async function fetchRates(workItems: WorkItem[]): Promise<Map<string, RateResult>> {
+    const unique = new Map<string, WorkItem>();
+    for (const item of workItems) {
+      if (!unique.has(item.rateKey)) unique.set(item.rateKey, item);
     }
 
+    const requests = new Map<string, Promise<LoadedRate>>();
+    const load = (item: WorkItem) => {
+      let request = requests.get(item.cacheKey);
+      if (!request) {
+        request = loadRate(item);
+        requests.set(item.cacheKey, request);
+      }
+      return request;
+    };
+
+    const items = [...unique.values()];
     const limit = Math.max(1, concurrency);
-    const rateResults: RateResult[] = [];
-    for (let i = 0; i < workItems.length; i += limit) {
-      const batch = workItems.slice(i, i + limit);
-      rateResults.push(...(await Promise.all(batch.map(fetchRate))));
+    const rates = new Map<string, RateResult>();
+    for (let i = 0; i < items.length; i += limit) {
+      const batch = items.slice(i, i + limit);
+      const batchResults = await Promise.all(batch.map((item) => fetchRate(item, load)));
+      for (let j = 0; j < batch.length; j++) {
+        rates.set(batch[j].rateKey, batchResults[j]);
+      }
+    }
+    return rates;
+  }
+
+  /** The metadata keys of a conversion that the target declares in the schema. */
+  function conversionMetadata(
+    { field, target, amount, fromCurrency }: WorkItem,
+    { rate, usedFallback, fetchedAt }: Extract<RateResult, { success: true }>,
+  ): Record<string, unknown> {
+    const targetPath = toSchemaPath(target.targetPath);
+    const originalAmount =
+      typeof amount === "string" && isDecimalPath(`${targetPath}.originalAmount`)
+        ? Types.Decimal128.fromString(amount)
+        : Number(amount);
+    const values: Record<string, unknown> = {
+      rate,
+      usedFallback,
+      provider: field.provider ?? options.provider,
+      fetchedAt,
+      originalAmount,
+      originalCurrency: fromCurrency,
+    };
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined && schema.path(`${targetPath}.${key}`)) result[key] = value;
     }
+    return result;
+  }
 
+  async function applyRates(
+    { doc, paths }: ConversionTarget,
+    workItems: WorkItem[],
+    rates: Map<string, RateResult>,
+    outcome: ConversionOutcome,
+  ): Promise<Map<string, unknown>> {
+    const results = new Map<string, unknown>();
     const convertedFields: string[] = [];
-    for (let i = 0; i < workItems.length; i++) {
-      const { field, amount, fromCurrency, conversionDate } = workItems[i];
-      const { sourcePath, targetPath, toCurrency } = field;
-      const rateResult = rateResults[i];
+    const convertedEntries: CurrencyConversionReportEntry[] = [];
+
+    for (const [index, item] of workItems.entries()) {
+      const { field, target, toCurrency, amount, fromCurrency, conversionDate, rateKey } = item;
+      const { sourcePath } = field;
+      const { targetPath } = target;
+      const rateResult = rates.get(rateKey) as RateResult;
 
       if (!rateResult.success) {
+        reportFailure(outcome, field, {
+          status: "failed",
+          reason: "rate unavailable",
+          targetPath,
+          error: rateResult.error,
+        });
         if (onError) {
           try {
             await onError({
@@ -289,46 +1086,138 @@ export function currencyConversionPlugin(schema: Schema, options: CurrencyPlugin
               error: rateResult.error,
             });
           } catch (callbackErr) {
-            console.error("[mongoose-currency-convert] onError callback threw:", callbackErr);
+            log("error", "onError callback threw", { field: sourcePath, error: callbackErr });
           }
         } else {
-          console.error(
-            `[mongoose-currency-convert] Error converting ${sourcePath}:`,
-            rateResult.error,
-          );
+          log("error", `Error converting ${sourcePath}`, {
+            field: sourcePath,
+            targetPath,
+            fromCurrency,
+            toCurrency,
+            date: conversionDate,
+            error: rateResult.error,
+          });
         }
         if (rollbackOnError) {
           for (const convertedField of convertedFields) {
-            setNestedValue(doc, convertedField, undefined);
+            paths.set(doc, convertedField, undefined);
             results.delete(convertedField);
           }
+          for (const entry of convertedEntries) entry.status = "rolledBack";
+          for (const skipped of workItems.slice(index + 1)) {
+            outcome.report?.push({
+              field: skipped.field.sourcePath,
+              targetPath: skipped.target.targetPath,
+              status: "skipped",
+              reason: "rollbackOnError",
+              fromCurrency: skipped.fromCurrency,
+              toCurrency: skipped.toCurrency,
+            });
+          }
           break;
         }
         continue;
       }
 
-      const convertedValue = {
-        amount: round(Number(amount) * rateResult.rate),
-        currency: toCurrency,
-        date: conversionDate,
-      };
-      setNestedValue(doc, targetPath, convertedValue);
+      let converted: ReturnType<typeof convertAmount>;
+      try {
+        converted = convertAmount(item, rateResult.rate);
+        if (!Number.isFinite(converted.amount)) {
+          throw new CurrencyPluginError(`converted amount ${converted.amount} is not finite`);
+        }
+      } catch (convertErr) {
+        // A product beyond the range of the target (a Decimal128 with more than 34 significant
+        // digits, an infinite number) cannot be written
+        log("warn", `Cannot store the conversion of '${sourcePath}' in '${targetPath}', skipping`, {
+          field: sourcePath,
+          targetPath,
+          fromCurrency,
+          toCurrency,
+          rate: rateResult.rate,
+          error: convertErr,
+        });
+        reportFailure(outcome, field, {
+          status: "failed",
+          reason: "converted amount out of range",
+          targetPath,
+          error: convertErr,
+        });
+        continue;
+      }
+      const { names, buildTarget } = targetShapeOf(field);
+      let convertedValue: Record<string, unknown>;
+      if (buildTarget) {
+        try {
+          convertedValue = buildTarget({
+            amount: converted.value,
+            currency: toCurrency,
+            date: conversionDate,
+            rate: rateResult.rate,
+            usedFallback: rateResult.usedFallback,
+            provider: field.provider ?? options.provider,
+            fetchedAt: rateResult.fetchedAt,
+            originalAmount: Number(amount),
+            originalCurrency: fromCurrency,
+          });
+        } catch (buildErr) {
+          log("warn", `buildTarget threw for field '${sourcePath}', skipping '${targetPath}'`, {
+            field: sourcePath,
+            targetPath,
+            error: buildErr,
+          });
+          reportFailure(outcome, field, {
+            status: "failed",
+            reason: "buildTarget threw",
+            targetPath,
+            error: buildErr,
+          });
+          continue;
+        }
+      } else {
+        convertedValue = {
+          [names.amount]: converted.value,
+          [names.currency]: toCurrency,
+          [names.date]: conversionDate,
+        };
+        if (metadata) Object.assign(convertedValue, conversionMetadata(item, rateResult));
+      }
+      paths.set(doc, targetPath, convertedValue);
       results.set(targetPath, convertedValue);
       convertedFields.push(targetPath);
+      const entry: CurrencyConversionReportEntry = {
+        field: sourcePath,
+        targetPath,
+        status: "converted",
+        fromCurrency,
+        toCurrency,
+        rate: rateResult.rate,
+        usedFallback: rateResult.usedFallback,
+        cacheHit: rateResult.cacheHit,
+      };
+      outcome.report?.push(entry);
+      convertedEntries.push(entry);
+      log("debug", `Converted ${sourcePath} into ${targetPath}`, {
+        field: sourcePath,
+        targetPath,
+        fromCurrency,
+        toCurrency,
+        date: conversionDate,
+        rate: rateResult.rate,
+      });
       if (onSuccess) {
         try {
           await onSuccess({
             field: sourcePath,
             fromCurrency,
             toCurrency,
-            originalAmount: amount,
-            convertedAmount: convertedValue.amount,
+            originalAmount: Number(amount),
+            convertedAmount: converted.amount,
             rate: rateResult.rate,
             date: conversionDate,
             usedFallback: rateResult.usedFallback,
           });
         } catch (callbackErr) {
-          console.error("[mongoose-currency-convert] onSuccess callback threw:", callbackErr);
+          log("error", "onSuccess callback threw", { field: sourcePath, error: callbackErr });
         }
       }
     }
@@ -336,49 +1225,745 @@ export function currencyConversionPlugin(schema: Schema, options: CurrencyPlugin
     return results;
   }
 
+  /**
+   * Converts every target in the batch, fetching each distinct `{from}_{to}_{date}` rate once per
+   * provider for the whole batch. Returns the conversions written to each target, in input order.
+   * Throws a `CurrencyConversionError` when a `strict` field of any target failed.
+   */
+  async function applyCurrencyConversionBatch(
+    targets: ConversionTarget[],
+  ): Promise<Map<string, unknown>[]> {
+    const failures: CurrencyConversionFailure[] = [];
+    const outcomes = targets.map(({ report }) => ({ failures, report }));
+    const workItemsPerTarget = targets.map((target, i) => collectWorkItems(target, outcomes[i]));
+    const rates = await fetchRates(workItemsPerTarget.flat());
+    const results: Map<string, unknown>[] = [];
+    for (let i = 0; i < targets.length; i++) {
+      results.push(await applyRates(targets[i], workItemsPerTarget[i], rates, outcomes[i]));
+    }
+    if (failures.length > 0) throw new CurrencyConversionError(failures);
+    return results;
+  }
+
+  async function applyCurrencyConversion(
+    doc: Record<string, unknown>,
+    report?: CurrencyConversionReportEntry[],
+  ): Promise<Map<string, unknown>> {
+    const [results] = await applyCurrencyConversionBatch([{ doc, paths: documentPaths, report }]);
+    return results;
+  }
+
+  /** The path of this schema that holds `path`: itself, or a single-nested or Mixed parent. */
+  function ownerPathOf(path: string): string | undefined {
+    const parts = getPathArray(path);
+    for (let length = parts.length; length > 0; length--) {
+      const candidate = parts.slice(0, length).join(".");
+      if (Object.hasOwn(schema.paths, candidate)) return candidate;
+    }
+    return undefined;
+  }
+
+  function isSingleNested(path: string): boolean {
+    return (schema.paths[path] as { $isSingleNested?: boolean }).$isSingleNested === true;
+  }
+
+  /**
+   * The problems a conversion of `field` would skip it for, by document path: a non-numeric
+   * amount, a missing or invalid source currency, an invalid date or target currency. Fields the
+   * document has no amount for, or that `when` rejects, have none.
+   */
+  function findSourceProblems(
+    field: CurrencyFieldConfig,
+    doc: Record<string, unknown>,
+  ): { path: string; message: string; value: unknown }[] {
+    const { sourcePath, currencyPath, datePath } = field;
+    const get = (path: string) => documentPaths.get(doc, path);
+    const rawAmount = get(sourcePath);
+    if (rawAmount == null) return [];
+    try {
+      if (field.when && field.when(doc, { operation: "save", get }) !== true) return [];
+    } catch {
+      return [];
+    }
+
+    const problems: { path: string; message: string; value: unknown }[] = [];
+    const amount = readAmount(rawAmount, sourcePath);
+    if (amount === undefined) {
+      problems.push({ path: sourcePath, message: "Non-numeric amount", value: rawAmount });
+    } else if (field.unit === "minor" && !isWholeAmount(amount)) {
+      problems.push({
+        path: sourcePath,
+        message: "Non-integer amount in minor units",
+        value: rawAmount,
+      });
+    }
+
+    const fromCurrency = get(currencyPath);
+    if (typeof fromCurrency !== "string" || !fromCurrency) {
+      problems.push({
+        path: currencyPath,
+        message: "Missing or invalid source currency",
+        value: fromCurrency,
+      });
+    } else if (!isValidCurrencyCode(fromCurrency, allowedCurrencyCodes)) {
+      problems.push({
+        path: currencyPath,
+        message: `Invalid currency code "${fromCurrency}"`,
+        value: fromCurrency,
+      });
+    }
+
+    const dateValue = datePath ? get(datePath) : undefined;
+    if (
+      datePath &&
+      (typeof dateValue === "string" || typeof dateValue === "number") &&
+      Number.isNaN(new Date(dateValue).getTime())
+    ) {
+      problems.push({ path: datePath, message: "Invalid conversion date", value: dateValue });
+    }
+
+    for (const target of targetsOf(field)) {
+      if (!target.toCurrencyPath) continue;
+      const toCurrency = get(target.toCurrencyPath) || target.toCurrency;
+      if (
+        typeof toCurrency !== "string" ||
+        !isValidCurrencyCode(toCurrency, allowedCurrencyCodes)
+      ) {
+        problems.push({
+          path: target.toCurrencyPath,
+          message: `Invalid target currency code "${toCurrency}"`,
+          value: toCurrency,
+        });
+      }
+    }
+    return problems;
+  }
+
+  if (validateSources) {
+    /** Invalidates the source problems of `field` on the root document, by their full paths. */
+    const invalidateSources = (doc: Document, field: CurrencyFieldConfig) => {
+      for (const problem of findSourceProblems(field, doc as unknown as Record<string, unknown>)) {
+        doc.invalidate(problem.path, problem.message, problem.value, "currency");
+      }
+    };
+
+    // Validators run with the root document as `this` only on paths of this schema, so a source
+    // path inside a single-nested subdocument is validated through the subdocument's path. Every
+    // path runs the checks of the whole field, so a problem is reported on its own path even when
+    // only another one (e.g. the amount) was modified.
+    const subdocumentFields = new Map<CurrencyFieldConfig, string[]>();
+    for (const field of fields) {
+      if (isWildcardField(field)) continue;
+      const ownerPaths = [...new Set(sourcePathsOf(field).map(ownerPathOf))].filter(
+        (path): path is string => path !== undefined,
+      );
+      if (ownerPaths.some(isSingleNested)) {
+        subdocumentFields.set(field, ownerPaths);
+      }
+      for (const path of ownerPaths) {
+        schema.path(path).validate({
+          validator(this: unknown) {
+            const doc = this as Document;
+            // Update validators run with the query as `this`
+            if (typeof doc?.invalidate !== "function") return true;
+            invalidateSources(doc, field);
+            return true;
+          },
+        });
+      }
+    }
+
+    // Mongoose validates a stored subdocument that only changed inside without the validators of
+    // its path, so these changes are checked before validation
+    if (subdocumentFields.size > 0) {
+      schema.pre("validate", function (this: Document) {
+        if (this.isNew) return;
+        for (const [field, ownerPaths] of subdocumentFields) {
+          if (ownerPaths.some((path) => this.isDirectModified(path))) continue;
+          if (!sourcePathsOf(field).some((path) => this.isModified(path))) continue;
+          invalidateSources(this, field);
+        }
+      });
+    }
+  }
+
   schema.pre("save", async function (this: Document) {
     if (this.$locals.skipCurrencyConversion) return;
-    const conversions = await applyCurrencyConversion(this as unknown as Record<string, unknown>);
+    const conversions = await applyCurrencyConversion(
+      this as unknown as Record<string, unknown>,
+      startReport(this),
+    );
     for (const [path, value] of conversions) {
       this.set(path, value);
     }
   });
 
+  /** Wraps a document as a payload; hydrated documents get their own report by default. */
+  function documentPayload(
+    doc: Record<string, unknown>,
+    operation: ConversionTarget["operation"] = "save",
+    report?: CurrencyConversionReportEntry[],
+  ): ConversionPayload {
+    const hydrated = doc as unknown as Document;
+    const isHydrated = typeof hydrated.set === "function";
+    return {
+      doc,
+      paths: documentPaths,
+      operation,
+      report: report ?? (isHydrated ? startReport(doc) : undefined),
+      commit: (conversions) => {
+        // Hydrated documents need `set()` so Mongoose tracks the change; plain objects were
+        // already updated in place by `applyCurrencyConversionBatch`.
+        if (!isHydrated) return;
+        for (const [path, value] of conversions) {
+          hydrated.set(path, value);
+        }
+      },
+    };
+  }
+
+  /**
+   * Wraps one part of an update (the `$set` values, …) as a payload. Its commit also accepts
+   * conversions computed from other payloads, such as the stored document of a partial update.
+   */
+  function updatePayload(
+    doc: Record<string, unknown>,
+    apply: () => void,
+    operation: ConversionTarget["operation"] = "update",
+    report?: CurrencyConversionReportEntry[],
+  ): ConversionPayload {
+    return {
+      doc,
+      paths: updatePaths,
+      operation,
+      report,
+      commit: (conversions) => {
+        for (const [path, value] of conversions) {
+          setUpdateValue(doc, path, value);
+        }
+        apply();
+      },
+    };
+  }
+
+  function updatePayloads(
+    update: UpdateDocument,
+    report?: CurrencyConversionReportEntry[],
+  ): ConversionPayload[] {
+    if (Array.isArray(update)) return [pipelinePayload(update, report)];
+
+    const payloads: ConversionPayload[] = [];
+
+    if (typeof update.$set === "object" && update.$set !== null) {
+      const doc = { ...update.$set } as Record<string, unknown>;
+      payloads.push(
+        updatePayload(
+          doc,
+          () => {
+            update.$set = doc;
+          },
+          "update",
+          report,
+        ),
+      );
+    } else {
+      const doc = { ...update };
+      payloads.push(updatePayload(doc, () => Object.assign(update, doc), "update", report));
+    }
+
+    if (typeof update.$setOnInsert === "object" && update.$setOnInsert !== null) {
+      const doc = { ...update.$setOnInsert } as Record<string, unknown>;
+      payloads.push(
+        updatePayload(
+          doc,
+          () => {
+            update.$setOnInsert = doc;
+          },
+          "upsert",
+          report,
+        ),
+      );
+    }
+
+    return payloads;
+  }
+
+  /**
+   * Builds the payload of an aggregation-pipeline update. Later stages see the fields set by
+   * earlier ones, so the values of every `$set` / `$addFields` stage are merged into one view.
+   * Converted targets are appended as a final `$set` stage of `$literal` values, so they are
+   * neither evaluated as expressions nor overwritten by the user's stages.
+   */
+  function pipelinePayload(
+    pipeline: unknown[],
+    report?: CurrencyConversionReportEntry[],
+  ): ConversionPayload {
+    const doc: Record<string, unknown> = {};
+    for (const stage of pipeline) {
+      for (const op of PIPELINE_SET_STAGES) {
+        const values = (stage as Record<string, unknown> | null)?.[op];
+        if (typeof values === "object" && values !== null) Object.assign(doc, values);
+      }
+    }
+
+    const outcome: ConversionOutcome = { failures: [], report };
+    const convertible = fields.filter((field) => {
+      const expressionPath = sourcePathsOf(field).find((path) => isExpressionValue(doc, path));
+      if (expressionPath === undefined) return true;
+      const targetPaths = targetsOf(field).map(({ targetPath }) => targetPath);
+      log(
+        "warn",
+        `'${expressionPath}' is set by an aggregation expression in a pipeline update and cannot be resolved before the write; skipping '${targetPaths.join("', '")}'`,
+        { field: field.sourcePath, path: expressionPath },
+      );
+      reportFailure(outcome, field, {
+        status: "skipped",
+        reason: `'${expressionPath}' is set by an aggregation expression`,
+      });
+      return false;
+    });
+    if (outcome.failures.length > 0) throw new CurrencyConversionError(outcome.failures);
+
+    return {
+      doc,
+      paths: updatePaths,
+      operation: "update",
+      fields: convertible,
+      report,
+      commit: (conversions) => {
+        if (conversions.size === 0) return;
+        const $set: Record<string, unknown> = {};
+        for (const [path, value] of conversions) {
+          $set[path] = { $literal: value };
+        }
+        pipeline.push({ $set });
+      },
+    };
+  }
+
+  /** Whether `path`, or one of its parents, is set to an aggregation expression in `doc`. */
+  function isExpressionValue(doc: Record<string, unknown>, path: string): boolean {
+    const parts = getPathArray(path);
+    for (let i = 1; i <= parts.length; i++) {
+      const value = getUpdateValue(doc, parts.slice(0, i).join("."));
+      if (typeof value === "string" && value.startsWith("$")) return true;
+      if (
+        typeof value === "object" &&
+        value !== null &&
+        Object.keys(value).some((key) => key.startsWith("$"))
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async function convertPayloads(payloads: ConversionPayload[]): Promise<void> {
+    const conversions = await applyCurrencyConversionBatch(payloads);
+    for (let i = 0; i < payloads.length; i++) {
+      payloads[i].commit(conversions[i]);
+    }
+  }
+
+  function isWildcardField({ sourcePath }: CurrencyFieldConfig): boolean {
+    return wildcardCount(sourcePath) > 0;
+  }
+
+  function sourcePathsOf(field: CurrencyFieldConfig): string[] {
+    const { sourcePath, currencyPath, datePath } = field;
+    const toCurrencyPaths = targetsOf(field).flatMap(({ toCurrencyPath }) =>
+      toCurrencyPath ? [toCurrencyPath] : [],
+    );
+    return [sourcePath, currencyPath, ...(datePath ? [datePath] : []), ...toCurrencyPaths];
+  }
+
+  /**
+   * Returns the fields an update sets only some source paths of, together with the source paths
+   * that must be loaded from the stored document to convert them.
+   */
+  function findFieldsToLoad({ doc, paths, fields: targetFields = fields }: ConversionTarget) {
+    const loadFields: CurrencyFieldConfig[] = [];
+    const missingPaths = new Set<string>();
+    for (const field of targetFields) {
+      if (isWildcardField(field)) continue;
+      const sourcePaths = sourcePathsOf(field);
+      const missing = sourcePaths.filter((path) => paths.get(doc, path) === undefined);
+      if (missing.length === 0 || missing.length === sourcePaths.length) continue;
+      loadFields.push(field);
+      for (const path of missing) {
+        missingPaths.add(path);
+      }
+    }
+    return { loadFields, missingPaths: [...missingPaths] };
+  }
+
+  /**
+   * Returns the fields whose amount an update changes with `$inc` or `$mul`. The new amount is
+   * only known after the write, so their targets are recomputed from the stored document.
+   */
+  function findArithmeticFields(update: UpdateDocument): CurrencyFieldConfig[] {
+    if (Array.isArray(update)) return [];
+    return fields.filter(({ sourcePath }) =>
+      ARITHMETIC_OPERATORS.some((op) => getUpdateValue(update[op], sourcePath) !== undefined),
+    );
+  }
+
+  /** Overlays the source values set by an update onto a stored (lean) document. */
+  function mergeSources(
+    stored: Record<string, unknown>,
+    { doc, paths }: ConversionTarget,
+    loadFields: CurrencyFieldConfig[],
+  ): Record<string, unknown> {
+    for (const field of loadFields) {
+      for (const path of sourcePathsOf(field)) {
+        const value = paths.get(doc, path);
+        if (value !== undefined) setNestedValue(stored, path, value);
+      }
+    }
+    return stored;
+  }
+
+  function targetWrite(id: unknown, conversions: Map<string, unknown>): AnyBulkWriteOperation {
+    return {
+      updateOne: {
+        filter: { _id: id },
+        update: { $set: Object.fromEntries(conversions) },
+      },
+    };
+  }
+
+  /**
+   * Work left for the post hook of an update: target writes computed per document before the
+   * update, and fields to recompute from the documents once the update has been applied.
+   */
+  type DeferredConversion = {
+    writes: AnyBulkWriteOperation[];
+    recompute?: { ids: unknown[]; fields: CurrencyFieldConfig[] };
+  };
+
+  const deferredConversions = new WeakMap<object, DeferredConversion>();
+
   async function handleUpdateMiddleware(
     this: import("mongoose").Query<unknown, unknown>,
     next: (err?: Error) => void,
   ) {
-    const queryOptions = this.getOptions() as Record<string, unknown>;
+    const queryOptions = this.getOptions();
     if (queryOptions.skipCurrencyConversion) return next();
 
     const update = this.getUpdate();
     if (!update) return next();
 
-    const updateAny = update as Record<string, unknown>;
-    let doc: Record<string, unknown>;
     try {
-      if (typeof updateAny.$set === "object" && updateAny.$set !== null) {
-        doc = { ...updateAny.$set };
-        await applyCurrencyConversion(doc);
-        updateAny.$set = doc;
-      } else {
-        doc = { ...updateAny };
-        await applyCurrencyConversion(doc);
-        Object.assign(updateAny, doc);
+      const report = startReport(this);
+      const payloads = updatePayloads(update as UpdateDocument, report);
+      // The first payload holds the `$set` (or plain) values applied to the matched document
+      const [setPayload] = payloads;
+
+      const arithmeticFields = findArithmeticFields(update as UpdateDocument);
+      if (arithmeticFields.length > 0) {
+        setPayload.fields = fields.filter((field) => !arithmeticFields.includes(field));
+        const matched = await this.model
+          .findOne(this.getFilter())
+          .sort(queryOptions.sort)
+          .select("_id")
+          .session(queryOptions.session ?? null)
+          .lean<Record<string, unknown>>();
+        deferredConversions.set(this, {
+          writes: [],
+          recompute: { ids: matched ? [matched._id] : [], fields: arithmeticFields },
+        });
       }
 
-      if (typeof updateAny.$setOnInsert === "object" && updateAny.$setOnInsert !== null) {
-        const insertDoc = { ...updateAny.$setOnInsert } as Record<string, unknown>;
-        await applyCurrencyConversion(insertDoc);
-        updateAny.$setOnInsert = insertDoc;
+      const { loadFields, missingPaths } = loadMissingFields
+        ? findFieldsToLoad(setPayload)
+        : { loadFields: [], missingPaths: [] };
+
+      if (loadFields.length > 0) {
+        // The query's `sort` picks the document `findOneAndUpdate` will update
+        const stored = await this.model
+          .findOne(this.getFilter())
+          .sort(queryOptions.sort)
+          .select(missingPaths)
+          .session(queryOptions.session ?? null)
+          .lean<Record<string, unknown>>();
+        if (stored) {
+          setPayload.fields = (setPayload.fields ?? fields).filter(
+            (field) => !loadFields.includes(field),
+          );
+          payloads.push({
+            doc: mergeSources(stored, setPayload, loadFields),
+            paths: documentPaths,
+            operation: "update",
+            fields: loadFields,
+            report,
+            commit: setPayload.commit,
+          });
+        }
       }
+
+      await convertPayloads(payloads);
+    } catch (err) {
+      return next(err instanceof Error ? err : new Error(String(err)));
+    }
+    next();
+  }
+
+  async function handleUpdateManyMiddleware(
+    this: import("mongoose").Query<unknown, unknown>,
+    next: (err?: Error) => void,
+  ) {
+    const queryOptions = this.getOptions();
+    if (queryOptions.skipCurrencyConversion) return next();
+
+    const update = this.getUpdate();
+    if (!update) return next();
+
+    try {
+      const report = startReport(this);
+      const payloads = updatePayloads(update as UpdateDocument, report);
+      const [setPayload] = payloads;
+      const deferred: DeferredConversion = { writes: [] };
+
+      const arithmeticFields = findArithmeticFields(update as UpdateDocument);
+      if (arithmeticFields.length > 0) {
+        setPayload.fields = fields.filter((field) => !arithmeticFields.includes(field));
+      }
+
+      // Fields the update sets every source path of convert the same for every matched document,
+      // so they stay in the update itself
+      const perDocument = queryOptions.perDocumentConversion ?? perDocumentConversion;
+      const { loadFields, missingPaths } =
+        perDocument || loadMissingFields
+          ? findFieldsToLoad(setPayload)
+          : { loadFields: [], missingPaths: [] };
+
+      if (loadFields.length > 0 || arithmeticFields.length > 0) {
+        // Matched documents may store different currencies or dates, so these fields are
+        // converted per document and written once the update has succeeded
+        const matched = await this.model
+          .find(this.getFilter())
+          .select(["_id", ...missingPaths])
+          .session(queryOptions.session ?? null)
+          .lean<Record<string, unknown>[]>();
+        if (matched.length > 0 && loadFields.length > 0) {
+          setPayload.fields = (setPayload.fields ?? fields).filter(
+            (field) => !loadFields.includes(field),
+          );
+          for (const stored of matched) {
+            payloads.push({
+              doc: mergeSources(stored, setPayload, loadFields),
+              paths: documentPaths,
+              operation: "update",
+              fields: loadFields,
+              report,
+              commit: (conversions) => {
+                if (conversions.size > 0)
+                  deferred.writes.push(targetWrite(stored._id, conversions));
+              },
+            });
+          }
+        }
+        if (arithmeticFields.length > 0) {
+          deferred.recompute = { ids: matched.map(({ _id }) => _id), fields: arithmeticFields };
+        }
+        deferredConversions.set(this, deferred);
+      }
+
+      await convertPayloads(payloads);
+    } catch (err) {
+      return next(err instanceof Error ? err : new Error(String(err)));
+    }
+    next();
+  }
+
+  async function flushDeferredConversions(
+    this: import("mongoose").Query<unknown, unknown>,
+    res: unknown,
+  ) {
+    const deferred = deferredConversions.get(this);
+    deferredConversions.delete(this);
+    if (!deferred) return;
+
+    const queryOptions = this.getOptions();
+    const session = queryOptions.session ?? undefined;
+    const writes = [...deferred.writes];
+
+    const { recompute } = deferred;
+    // `findOneAndUpdate` resolves to the document, or to `{ value, lastErrorObject }` with
+    // `includeResultMetadata`
+    const returned = isUpdateResult(res) ? undefined : returnedDocument(res);
+    const returnsUpdated = queryOptions.new === true || queryOptions.returnDocument === "after";
+
+    if (recompute && recompute.ids.length === 0 && queryOptions.upsert) {
+      const upsertedId = await findUpsertedId(this, res, returnsUpdated ? returned : undefined);
+      if (upsertedId != null) recompute.ids.push(upsertedId);
+    }
+
+    if (recompute && recompute.ids.length > 0) {
+      const updated = await this.model
+        .find({ _id: { $in: recompute.ids } })
+        .select(recompute.fields.flatMap(sourcePathsOf))
+        .session(session ?? null)
+        .lean<Record<string, unknown>[]>();
+      await convertPayloads(
+        updated.map((doc) => ({
+          doc,
+          paths: documentPaths,
+          operation: "update",
+          fields: recompute.fields,
+          report: conversionReports.get(this),
+          commit: (conversions) => {
+            if (conversions.size === 0) return;
+            writes.push(targetWrite(doc._id, conversions));
+            // The document returned with `new: true` was read before the targets were written
+            if (returnsUpdated && returned && String(returned._id) === String(doc._id)) {
+              setReturnedTargets(returned, conversions);
+            }
+          },
+        })),
+      );
+    }
+
+    if (writes.length === 0) return;
+    await this.model.bulkWrite(writes, { session, skipCurrencyConversion: true });
+  }
+
+  /** Whether `res` is the result of `updateOne` / `updateMany` rather than a document. */
+  function isUpdateResult(res: unknown): res is { upsertedId?: unknown } {
+    return typeof res === "object" && res !== null && "matchedCount" in res;
+  }
+
+  /** The document a `findOneAndUpdate` resolved to, if any. */
+  function returnedDocument(res: unknown): Record<string, unknown> | undefined {
+    if (typeof res !== "object" || res === null) return undefined;
+    const result = res as { value?: unknown; lastErrorObject?: unknown };
+    const doc = "lastErrorObject" in result ? result.value : res;
+    return typeof doc === "object" && doc !== null ? (doc as Record<string, unknown>) : undefined;
+  }
+
+  /**
+   * The `_id` of the document an upsert inserted: from the update result, the result metadata
+   * of `findOneAndUpdate`, or the updated document it returned. When it returned the original
+   * document (`null` after an insert), the inserted one is looked up by the query's filter.
+   */
+  async function findUpsertedId(
+    query: import("mongoose").Query<unknown, unknown>,
+    res: unknown,
+    returned: Record<string, unknown> | undefined,
+  ): Promise<unknown> {
+    if (isUpdateResult(res)) return res.upsertedId;
+    const metadata = (res as { lastErrorObject?: { upserted?: unknown } } | null)?.lastErrorObject;
+    if (metadata) return metadata.upserted;
+    if (returned) return returned._id;
+
+    const queryOptions = query.getOptions();
+    const inserted = await query.model
+      .findOne(query.getFilter())
+      .sort(queryOptions.sort)
+      .select("_id")
+      .session(queryOptions.session ?? null)
+      .lean<Record<string, unknown>>();
+    return inserted?._id;
+  }
+
+  /** Writes recomputed targets into the document returned to the caller. */
+  function setReturnedTargets(
+    returned: Record<string, unknown>,
+    conversions: Map<string, unknown>,
+  ): void {
+    const hydrated = returned as unknown as Document;
+    for (const [path, value] of conversions) {
+      if (typeof hydrated.set !== "function") {
+        setNestedValue(returned, path, value);
+        continue;
+      }
+      // The targets are already stored, so the document must not consider them changed
+      hydrated.set(path, value);
+      hydrated.unmarkModified(path);
+    }
+  }
+
+  async function handleReplaceMiddleware(
+    this: import("mongoose").Query<unknown, unknown>,
+    next: (err?: Error) => void,
+  ) {
+    const queryOptions = this.getOptions() as Record<string, unknown>;
+    if (queryOptions.skipCurrencyConversion) return next();
+
+    // The replacement is a whole document, so it is converted like one on save
+    const replacement = this.getUpdate();
+    if (!replacement) return next();
+
+    try {
+      await convertPayloads([
+        documentPayload(replacement as Record<string, unknown>, "update", startReport(this)),
+      ]);
+    } catch (err) {
+      return next(err instanceof Error ? err : new Error(String(err)));
+    }
+    next();
+  }
+
+  async function handleInsertManyMiddleware(
+    next: (err?: Error) => void,
+    docs: unknown,
+    insertOptions?: InsertManyOptions,
+  ) {
+    if (insertOptions?.skipCurrencyConversion) return next();
+
+    const toConvert = (Array.isArray(docs) ? docs : [docs]).filter(
+      (doc): doc is Record<string, unknown> =>
+        typeof doc === "object" &&
+        doc !== null &&
+        !(doc as Partial<Document>).$locals?.skipCurrencyConversion,
+    );
+    try {
+      await convertPayloads(toConvert.map((doc) => documentPayload(doc)));
+    } catch (err) {
+      return next(err instanceof Error ? err : new Error(String(err)));
+    }
+    next();
+  }
+
+  async function handleBulkWriteMiddleware(
+    next: (err?: Error) => void,
+    ops: AnyBulkWriteOperation[],
+    bulkOptions?: MongooseBulkWriteOptions,
+  ) {
+    if (bulkOptions?.skipCurrencyConversion || !Array.isArray(ops)) return next();
+
+    // Collect every convertible payload first so the whole batch shares its rate lookups
+    const payloads: ConversionPayload[] = [];
+    for (const op of ops) {
+      if ("insertOne" in op && op.insertOne?.document) {
+        payloads.push(documentPayload(op.insertOne.document as Record<string, unknown>));
+      } else if ("replaceOne" in op && op.replaceOne?.replacement) {
+        payloads.push(
+          documentPayload(op.replaceOne.replacement as Record<string, unknown>, "update"),
+        );
+      } else if ("updateOne" in op && op.updateOne?.update) {
+        payloads.push(...updatePayloads(op.updateOne.update as UpdateDocument));
+      } else if ("updateMany" in op && op.updateMany?.update) {
+        payloads.push(...updatePayloads(op.updateMany.update as UpdateDocument));
+      }
+    }
+
+    try {
+      await convertPayloads(payloads);
     } catch (err) {
       return next(err instanceof Error ? err : new Error(String(err)));
     }
     next();
   }
 
+  schema.pre("insertMany", handleInsertManyMiddleware);
+  schema.pre("bulkWrite", handleBulkWriteMiddleware);
   schema.pre("findOneAndUpdate", handleUpdateMiddleware);
   schema.pre("updateOne", handleUpdateMiddleware);
-  schema.pre("updateMany", handleUpdateMiddleware);
+  schema.pre("updateMany", handleUpdateManyMiddleware);
+  schema.post("findOneAndUpdate", flushDeferredConversions);
+  schema.post("updateOne", flushDeferredConversions);
+  schema.post("updateMany", flushDeferredConversions);
+  schema.pre("replaceOne", handleReplaceMiddleware);
+  schema.pre("findOneAndReplace", handleReplaceMiddleware);
 }
@@ -1,24 +1,241 @@
+import type { RateError } from "./errors";
+
+export type RoundingMode = "half-up" | "half-even" | "half-down" | "ceil" | "floor" | "truncate";
+
+export interface RoundingOptions {
+  mode: RoundingMode;
+  /** Decimal places to keep. Defaults to the minor units of the target currency. */
+  precision?: number;
+}
+
+export interface CurrencyTargetConfig {
+  targetPath: string;
+  /** Currency to convert into. Required unless `toCurrencyPath` is set. */
+  toCurrency?: string;
+  /**
+   * Path of the target currency code in the document (e.g. `tenant.reportingCurrency`), validated
+   * at conversion time. Falls back to `toCurrency` when the document has no value there.
+   */
+  toCurrencyPath?: string;
+}
+
+/** Names of the sub-fields a converted value is written to. */
+export interface TargetFieldNames {
+  /** Defaults to `"amount"`. */
+  amount?: string;
+  /** Defaults to `"currency"`. */
+  currency?: string;
+  /** Defaults to `"date"`. */
+  date?: string;
+}
+
+/** A completed conversion, passed to `buildTarget`. */
+export interface CurrencyTargetValues {
+  /** Converted amount: a number, or a Decimal128 when the target's amount path is Decimal128. */
+  amount: unknown;
+  currency: string;
+  date: Date;
+  rate: number;
+  usedFallback: boolean;
+  provider?: string;
+  fetchedAt: Date;
+  originalAmount: number;
+  originalCurrency: string;
+}
+
+/** A conversion that failed on a `strict` field; see `CurrencyConversionError`. */
+export interface CurrencyConversionFailure {
+  /** Source path of the field (with wildcards resolved). */
+  field: string;
+  /** The target that was not written; absent when the whole field failed before its targets. */
+  targetPath?: string;
+  /** Why the conversion failed, e.g. `"invalid source currency code 'XXX'"`. */
+  reason: string;
+  /** A `CurrencyPluginError` subclass, or what a throwing callback (`when`, …) threw. */
+  error?: unknown;
+}
+
+/**
+ * What happened to one target of a field during a save or update: converted, skipped (no amount,
+ * same currency, `when`, invalid values), failed (no rate, `buildTarget` threw) or rolled back by
+ * `rollbackOnError`. See `getConversionReport`.
+ */
+export interface CurrencyConversionReportEntry {
+  /** Source path of the field (with wildcards resolved). */
+  field: string;
+  /** Absent when the whole field was skipped before its targets. */
+  targetPath?: string;
+  status: "converted" | "skipped" | "failed" | "rolledBack";
+  /** Why the field was skipped or failed, e.g. `"no amount"` or `"rate unavailable"`. */
+  reason?: string;
+  fromCurrency?: string;
+  toCurrency?: string;
+  rate?: number;
+  usedFallback?: boolean;
+  /** Whether the rate was read from the `cache`. */
+  cacheHit?: boolean;
+  error?: unknown;
+}
+
+export interface CurrencyConversionContext {
+  /**
+   * `"save"` for documents being saved or inserted (`insertMany`, `bulkWrite` inserts), `"update"`
+   * for updates and replacements, `"upsert"` for the `$setOnInsert` values of an upsert.
+   */
+  operation: "save" | "update" | "upsert";
+  /** Reads a path from the document, including the dotted keys of an update. */
+  get: (path: string) => unknown;
+}
+
 export interface CurrencyFieldConfig {
   sourcePath: string;
   currencyPath: string;
   datePath?: string;
-  targetPath: string;
-  toCurrency: string;
+  /** Where the converted value is written. Required unless `targets` is set. */
+  targetPath?: string;
+  /** Currency to convert into. Required unless `toCurrencyPath` or `targets` is set. */
+  toCurrency?: string;
+  /** Path of the target currency code in the document; see `CurrencyTargetConfig`. */
+  toCurrencyPath?: string;
+  /**
+   * Converts the same source into several currencies. The source is read once and the rates for
+   * every target are fetched together. Takes precedence over `targetPath` / `toCurrency`.
+   */
+  targets?: CurrencyTargetConfig[];
+  /**
+   * Unit of the source and target amounts. With `"minor"`, both are integers in minor units
+   * (cents), scaled by the ISO 4217 exponent of their currency. Defaults to `"major"`.
+   */
+  unit?: "major" | "minor";
+  /** Rounding strategy for this field; overrides the plugin-level `rounding` / `round`. */
+  rounding?: RoundingMode | RoundingOptions;
+  /** Rate provider for this field (e.g. a central-bank rate); overrides the plugin-level one. */
+  getRate?: (from: string, to: string, date?: Date) => Promise<number>;
+  /** Rounding function for this field; overrides the plugin-level `rounding` / `round`. */
+  round?: (value: number) => number;
+  /** Overrides the plugin-level `fallbackRate` for this field. */
+  fallbackRate?: number;
+  /** Overrides the plugin-level `rateValidation` for this field. */
+  rateValidation?: { min?: number; max?: number };
+  /** Overrides the plugin-level `provider` name; useful together with a field-level `getRate`. */
+  provider?: string;
+  /** Overrides the plugin-level `dateTransform` for this field. */
+  dateTransform?: (date: Date) => Date;
+  /** Overrides the plugin-level `targetFields` for this field. */
+  targetFields?: TargetFieldNames;
+  /** Overrides the plugin-level `buildTarget` (and `targetFields`) for this field. */
+  buildTarget?: (values: CurrencyTargetValues) => Record<string, unknown>;
+  /**
+   * Converts the field only when this returns `true`. Called before any source is read, with the
+   * document being saved, or the values an update sets (merged with the stored document when it
+   * is loaded).
+   */
+  when?: (doc: Record<string, unknown>, ctx: CurrencyConversionContext) => boolean;
+  /** Overrides the plugin-level `strict` option for this field. */
+  strict?: boolean;
 }
 
 export interface CurrencyPluginOptions {
   fields: CurrencyFieldConfig[];
   getRate: (from: string, to: string, date?: Date) => Promise<number>;
   round?: (value: number) => number;
+  /**
+   * Built-in rounding strategy, applied with exact decimal arithmetic. A mode alone keeps the
+   * minor units of the target currency. Cannot be combined with `round`.
+   */
+  rounding?: RoundingMode | RoundingOptions;
   cache?: CurrencyRateCache<number>;
   allowedCurrencyCodes?: string[];
   onError?: (ctx: CurrencyPluginErrorContext) => Promise<void> | void;
   onSuccess?: (ctx: CurrencyPluginSuccessContext) => Promise<void> | void;
   fallbackRate?: number;
   rollbackOnError?: boolean;
+  /**
+   * Reject the save or update with a `CurrencyConversionError` when a field cannot be converted
+   * (invalid configuration or source values, or a rate failure without fallback), instead of
+   * skipping it. Can be set per field.
+   */
+  strict?: boolean;
   dateTransform?: (date: Date) => Date;
   concurrency?: number;
   rateValidation?: { min?: number; max?: number };
+  /**
+   * When an update sets only some of a field's source paths (e.g. `price.amount` but not
+   * `price.currency`), load the missing ones from the matched document before converting.
+   * `updateMany` resolves them per matched document and writes each target after the update.
+   */
+  loadMissingFields?: boolean;
+  /**
+   * Convert `updateMany` per matched document instead of once for the whole update: fields the
+   * update sets only some source paths of are resolved against each document's stored values,
+   * and their targets are written with a `bulkWrite()` after the update. Fields set completely
+   * are converted once, in the update. Can be overridden per query.
+   */
+  perDocumentConversion?: boolean;
+  /**
+   * Accept numeric strings (e.g. `"12.50"`) as source amounts on any path. Decimal128 paths always
+   * accept them. String and Decimal128 amounts are converted with exact decimal arithmetic.
+   */
+  allowNumericStrings?: boolean;
+  /**
+   * Also write conversion metadata into each target: `rate`, `usedFallback`, `provider`,
+   * `fetchedAt`, `originalAmount` and `originalCurrency`. Only keys the target declares in the
+   * schema are written.
+   */
+  metadata?: boolean;
+  /** Name of the rate provider, written to the target's `provider` key with `metadata`. */
+  provider?: string;
+  /**
+   * Run the plugin's checks of the source values as part of document validation: a non-numeric
+   * amount, or a missing or invalid currency code or date, fails `validate()` / `validateSync()`
+   * with a `ValidatorError` (kind `"currency"`) on the offending path. Wildcard fields are not
+   * checked.
+   */
+  validateSources?: boolean;
+  /** Where warnings and errors are logged. Defaults to the console. */
+  logger?: CurrencyPluginLogger;
+  /**
+   * Minimum level passed to `logger`: conversions are logged at `"debug"`, fallback rates at
+   * `"info"`. Defaults to `"warn"`; `"silent"` disables logging.
+   */
+  logLevel?: LogLevel | "silent";
+  /**
+   * Sub-field names of the targets, e.g. `{ amount: "value", currency: "ccy", date: "asOf" }`.
+   * Targets must declare the mapped amount path in the schema.
+   */
+  targetFields?: TargetFieldNames;
+  /**
+   * Builds the value written to each target instead of `{ amount, currency, date }`. The target
+   * path itself must exist in the schema; `metadata` is not added to the built value.
+   */
+  buildTarget?: (values: CurrencyTargetValues) => Record<string, unknown>;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured context of a log entry; only the keys that apply to the entry are set. */
+export interface CurrencyPluginLogDetails {
+  /** Source path of the field. */
+  field?: string;
+  targetPath?: string;
+  /** The document path the entry is about, e.g. an invalid currency or date path. */
+  path?: string;
+  fromCurrency?: string;
+  toCurrency?: string;
+  date?: Date;
+  rate?: number;
+  error?: unknown;
+}
+
+/**
+ * Receives the plugin's log entries. The signature is pino's (`logger.warn(details, message)`);
+ * winston's methods take the message first, so wrap them.
+ */
+export interface CurrencyPluginLogger {
+  debug(details: CurrencyPluginLogDetails, message: string): void;
+  info(details: CurrencyPluginLogDetails, message: string): void;
+  warn(details: CurrencyPluginLogDetails, message: string): void;
+  error(details: CurrencyPluginLogDetails, message: string): void;
 }
 
 export interface CurrencyPluginSuccessContext {
@@ -38,7 +255,8 @@ export interface CurrencyPluginErrorContext {
   fromCurrency: string;
   toCurrency: string;
   date: Date;
-  error: unknown;
+  /** Branch with `instanceof`; a `RateFetchError` carries what `getRate` threw as its `cause`. */
+  error: RateError;
 }
 
 /**
@@ -83,5 +301,17 @@ declare module "mongoose" {
   interface QueryOptions {
     /** Set to `true` to skip currency conversion for this query. */
     skipCurrencyConversion?: boolean;
+    /** Overrides the plugin's `perDocumentConversion` option for this `updateMany()`. */
+    perDocumentConversion?: boolean;
+  }
+
+  interface InsertManyOptions {
+    /** Set to `true` to skip currency conversion for this `insertMany()` call. */
+    skipCurrencyConversion?: boolean;
+  }
+
+  interface MongooseBulkWriteOptions {
+    /** Set to `true` to skip currency conversion for this `bulkWrite()` call. */
+    skipCurrencyConversion?: boolean;
   }
 }
@@ -0,0 +1,119 @@
+import type { RoundingMode } from "../types";
+
+/** An exact decimal number: `coefficient × 10^-scale`. */
+export type Decimal = { coefficient: bigint; scale: number };
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+/** The range of a BSON Decimal128: 34 significant digits, exponents from −6176 to 6111. */
+const MAX_DIGITS = 34;
+const MIN_EXPONENT = -6176;
+const MAX_EXPONENT = 6111;
+
+/**
+ * Parses a decimal string such as `"12.50"` or `"-1e-7"`; returns `undefined` for anything else,
+ * including values a Decimal128 cannot hold (checked before any BigInt arithmetic, so huge
+ * exponents or digit strings stay cheap).
+ */
+export function parseDecimal(value: string): Decimal | undefined {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, sign, int = "", frac = "", exponent = "0"] = match;
+  if (!int && !frac) return undefined;
+
+  const digits = `${int}${frac}`.replace(/^0+/, "");
+  const significant = digits.replace(/0+$/, "");
+  // Exponent of the last written digit, and of the last non-zero one
+  const lastExponent = Number(exponent) - frac.length;
+  const significantExponent = lastExponent + digits.length - significant.length;
+  if (
+    significant.length > MAX_DIGITS ||
+    lastExponent < MIN_EXPONENT ||
+    significantExponent > MAX_EXPONENT + MAX_DIGITS - Math.max(significant.length, 1)
+  ) {
+    return undefined;
+  }
+
+  return shiftDecimal(
+    { coefficient: BigInt(`${sign}${digits || "0"}`), scale: frac.length },
+    Number(exponent),
+  );
+}
+
+/** Multiplies by `10^places` (divides when `places` is negative); always exact. */
+export function shiftDecimal({ coefficient, scale }: Decimal, places: number): Decimal {
+  const shifted = scale - places;
+  if (shifted < 0) return { coefficient: coefficient * 10n ** BigInt(-shifted), scale: 0 };
+  return { coefficient, scale: shifted };
+}
+
+export function multiplyDecimal(a: Decimal, b: Decimal): Decimal {
+  return { coefficient: a.coefficient * b.coefficient, scale: a.scale + b.scale };
+}
+
+/**
+ * Rounds to `scale` decimal places. `half-up` rounds ties away from zero, `half-down` towards
+ * zero and `half-even` to the even neighbour; `ceil`, `floor` and `truncate` round towards
+ * positive infinity, negative infinity and zero.
+ */
+export function roundDecimal(
+  value: Decimal,
+  scale: number,
+  mode: RoundingMode = "half-up",
+): Decimal {
+  if (value.scale <= scale) return value;
+
+  const divisor = 10n ** BigInt(value.scale - scale);
+  const coefficient = value.coefficient / divisor;
+  const remainder = value.coefficient % divisor;
+  if (remainder === 0n) return { coefficient, scale };
+
+  const sign = value.coefficient < 0n ? -1n : 1n;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+  let awayFromZero: boolean;
+  switch (mode) {
+    case "ceil":
+      awayFromZero = sign > 0n;
+      break;
+    case "floor":
+      awayFromZero = sign < 0n;
+      break;
+    case "truncate":
+      awayFromZero = false;
+      break;
+    case "half-down":
+      awayFromZero = twiceRemainder > divisor;
+      break;
+    case "half-even":
+      awayFromZero =
+        twiceRemainder > divisor || (twiceRemainder === divisor && coefficient % 2n !== 0n);
+      break;
+    default:
+      awayFromZero = twiceRemainder >= divisor;
+  }
+  return { coefficient: awayFromZero ? coefficient + sign : coefficient, scale };
+}
+
+/** Whether the value has no fractional part (`12.00` has none). */
+export function isWholeDecimal({ coefficient, scale }: Decimal): boolean {
+  return coefficient % 10n ** BigInt(scale) === 0n;
+}
+
+export function formatDecimal({ coefficient, scale }: Decimal): string {
+  const sign = coefficient < 0n ? "-" : "";
+  const digits = (coefficient < 0n ? -coefficient : coefficient)
+    .toString()
+    .padStart(scale + 1, "0");
+  if (scale === 0) return `${sign}${digits}`;
+  return `${sign}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+}
+
+/** Whether `value` is a BSON Decimal128 (checked structurally, so any `bson` copy matches). */
+export function isDecimal128(value: unknown): value is { _bsontype: "Decimal128" } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { _bsontype?: unknown })._bsontype === "Decimal128"
+  );
+}
@@ -204,6 +204,34 @@ const ISO_4217_CODES = [
   "ZMW",
   "ZWL",
 ];
+// ISO 4217 minor units (decimal exponent) of the codes that do not use 2
+const ISO_4217_MINOR_UNITS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLF: 4,
+};
 const PATH_CACHE_MAX_SIZE = 500;
 const pathCache = new Map<string, string[]>();
 
@@ -228,6 +256,9 @@ export function getNestedValue(obj: unknown, path: string | string[]): unknown {
   const keys = Array.isArray(path) ? path : getPathArray(path);
   return keys.reduce((acc, key) => {
     if (acc && typeof acc === "object") {
+      if (acc instanceof Map) {
+        return acc.get(key);
+      }
       if (!Number.isNaN(Number(key)) && Array.isArray(acc)) {
         return acc[Number(key)];
       }
@@ -244,7 +275,10 @@ export function setNestedValue(obj: unknown, path: string | string[], value: unk
 
   let target = obj as Record<string, unknown>;
   for (const key of parts) {
-    if (!Number.isNaN(Number(key)) && Array.isArray(target)) {
+    if (target instanceof Map) {
+      if (!target.get(key)) target.set(key, {});
+      target = target.get(key);
+    } else if (!Number.isNaN(Number(key)) && Array.isArray(target)) {
       if (!target[Number(key)]) target[Number(key)] = {};
       target = target[Number(key)] as Record<string, unknown>;
     } else {
@@ -254,15 +288,79 @@ export function setNestedValue(obj: unknown, path: string | string[], value: unk
       target = target[key] as Record<string, unknown>;
     }
   }
-  if (!Number.isNaN(Number(last)) && Array.isArray(target)) {
+  if (target instanceof Map) {
+    target.set(last, value);
+  } else if (!Number.isNaN(Number(last)) && Array.isArray(target)) {
     target[Number(last)] = value;
   } else {
     target[last] = value;
   }
 }
 
-export function defaultRound(value: number): number {
-  return Math.round(value * 100) / 100;
+/**
+ * Reads `path` from an update object whose keys may be dotted (`{ "price.amount": 1 }`), nested
+ * (`{ price: { amount: 1 } }`) or a mix of both. The longest matching key wins.
+ */
+export function getUpdateValue(update: unknown, path: string): unknown {
+  if (!update || typeof update !== "object") return undefined;
+
+  const parts = getPathArray(path);
+  for (let i = parts.length; i > 0; i--) {
+    const key = parts.slice(0, i).join(".");
+    if (Object.hasOwn(update, key)) {
+      const value = (update as Record<string, unknown>)[key];
+      return i === parts.length ? value : getNestedValue(value, parts.slice(i));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Writes `path` into an update object without clobbering sibling fields: the value is nested
+ * under the longest existing key that prefixes `path`, otherwise `path` is added as a dotted key.
+ */
+export function setUpdateValue(
+  update: Record<string, unknown>,
+  path: string,
+  value: unknown,
+): void {
+  const parts = getPathArray(path);
+  for (let i = parts.length - 1; i > 0; i--) {
+    const key = parts.slice(0, i).join(".");
+    const existing = update[key];
+    if (Object.hasOwn(update, key) && typeof existing === "object" && existing !== null) {
+      setNestedValue(existing, parts.slice(i), value);
+      return;
+    }
+  }
+  update[path] = value;
+}
+
+/** Whether a path segment addresses every array element (`*`) or every Map entry (`$*`). */
+export function isWildcardSegment(segment: string): boolean {
+  return segment === "*" || segment === "$*";
+}
+
+/**
+ * Replaces the first wildcard segment (`*` or `$*`) of `path` with `segment`; paths without one
+ * are unchanged.
+ */
+export function replaceWildcard(path: string, segment: string): string {
+  const parts = getPathArray(path);
+  const index = parts.findIndex(isWildcardSegment);
+  if (index === -1) return path;
+  return [...parts.slice(0, index), segment, ...parts.slice(index + 1)].join(".");
+}
+
+/** Rounds to the given number of minor units (2 by default, i.e. cents). */
+export function defaultRound(value: number, minorUnits = 2): number {
+  const factor = 10 ** minorUnits;
+  return Math.round(value * factor) / factor;
+}
+
+/** Number of minor-unit digits of a currency (JPY 0, EUR 2, KWD 3); 2 for codes without one. */
+export function getMinorUnits(code: string): number {
+  return ISO_4217_MINOR_UNITS[code.toUpperCase()] ?? 2;
 }
 
 export function isValidCurrencyCode(code: string, allowedCodes?: string[]): boolean {
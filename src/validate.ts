@@ -1 +1 @@
-export { isValidCurrencyCode } from "./utils/helpers";
+export { getMinorUnits, isValidCurrencyCode } from "./utils/helpers";
@@ -0,0 +1,117 @@
+import { expect } from 'chai';
+import { Types } from 'mongoose';
+
+import {
+  formatDecimal,
+  isDecimal128,
+  isWholeDecimal,
+  multiplyDecimal,
+  parseDecimal,
+  roundDecimal,
+  shiftDecimal,
+} from '../src/utils/decimal';
+
+function decimal(value: string) {
+  const parsed = parseDecimal(value);
+  if (!parsed) throw new Error(`not a decimal: ${value}`);
+  return parsed;
+}
+
+describe('decimal', () => {
+  describe('#parseDecimal', () => {
+    it('should parse plain and exponent notation', () => {
+      expect(formatDecimal(decimal('12.50'))).to.equal('12.50');
+      expect(formatDecimal(decimal('-1e-7'))).to.equal('-0.0000001');
+      expect(formatDecimal(decimal('1.23E+5'))).to.equal('123000');
+      expect(formatDecimal(decimal('.5'))).to.equal('0.5');
+    });
+
+    it('should reject non-numeric strings', () => {
+      expect(parseDecimal('abc')).to.be.undefined;
+      expect(parseDecimal('')).to.be.undefined;
+      expect(parseDecimal('-')).to.be.undefined;
+      expect(parseDecimal('NaN')).to.be.undefined;
+    });
+
+    it('should accept values at the limits of Decimal128', () => {
+      expect(formatDecimal(decimal(`${'9'.repeat(34)}e6111`))).to.have.length(34 + 6111);
+      expect(formatDecimal(decimal('1e-6176'))).to.equal(`0.${'0'.repeat(6175)}1`);
+      expect(formatDecimal(decimal(`1${'0'.repeat(40)}`))).to.equal(`1${'0'.repeat(40)}`);
+    });
+
+    it('should reject values outside the Decimal128 range', () => {
+      expect(parseDecimal('9'.repeat(35))).to.be.undefined;
+      expect(parseDecimal('1e6145')).to.be.undefined;
+      expect(parseDecimal('1e-6177')).to.be.undefined;
+      expect(parseDecimal('0e99999999')).to.be.undefined;
+    });
+
+    it('should reject huge exponents without computing them', () => {
+      const start = Date.now();
+
+      expect(parseDecimal('1e30000000')).to.be.undefined;
+      expect(parseDecimal('-1e-30000000')).to.be.undefined;
+      expect(Date.now() - start).to.be.below(100);
+    });
+  });
+
+  describe('#multiplyDecimal', () => {
+    it('should multiply without floating point error', () => {
+      expect(formatDecimal(multiplyDecimal(decimal('0.1'), decimal('0.2')))).to.equal('0.02');
+      expect(formatDecimal(multiplyDecimal(decimal('0.15'), decimal('1.1')))).to.equal('0.165');
+    });
+  });
+
+  describe('#roundDecimal', () => {
+    it('should round half away from zero', () => {
+      expect(formatDecimal(roundDecimal(decimal('0.165'), 2))).to.equal('0.17');
+      expect(formatDecimal(roundDecimal(decimal('-0.165'), 2))).to.equal('-0.17');
+      expect(formatDecimal(roundDecimal(decimal('0.164'), 2))).to.equal('0.16');
+    });
+
+    it('should support every rounding mode', () => {
+      const cases: [string, Parameters<typeof roundDecimal>[2], string][] = [
+        ['0.125', 'half-even', '0.12'],
+        ['0.135', 'half-even', '0.14'],
+        ['0.125', 'half-down', '0.12'],
+        ['-0.125', 'half-down', '-0.12'],
+        ['-1.231', 'ceil', '-1.23'],
+        ['1.231', 'ceil', '1.24'],
+        ['-1.231', 'floor', '-1.24'],
+        ['-1.239', 'truncate', '-1.23'],
+      ];
+      for (const [value, mode, expected] of cases) {
+        expect(formatDecimal(roundDecimal(decimal(value), 2, mode))).to.equal(expected);
+      }
+    });
+
+    it('should leave values with fewer decimal places unchanged', () => {
+      expect(formatDecimal(roundDecimal(decimal('1.5'), 2))).to.equal('1.5');
+    });
+  });
+
+  describe('#shiftDecimal', () => {
+    it('should move the decimal point both ways', () => {
+      expect(formatDecimal(shiftDecimal(decimal('1234'), -2))).to.equal('12.34');
+      expect(formatDecimal(shiftDecimal(decimal('12.5'), 3))).to.equal('12500');
+    });
+  });
+
+  describe('#isWholeDecimal', () => {
+    it('should ignore trailing fractional zeros', () => {
+      expect(isWholeDecimal(decimal('12'))).to.be.true;
+      expect(isWholeDecimal(decimal('12.00'))).to.be.true;
+      expect(isWholeDecimal(decimal('1.2e1'))).to.be.true;
+      expect(isWholeDecimal(decimal('10.5'))).to.be.false;
+      expect(isWholeDecimal(decimal('-0.01'))).to.be.false;
+    });
+  });
+
+  describe('#isDecimal128', () => {
+    it('should detect Decimal128 values', () => {
+      expect(isDecimal128(Types.Decimal128.fromString('1.5'))).to.be.true;
+      expect(isDecimal128('1.5')).to.be.false;
+      expect(isDecimal128(null)).to.be.false;
+    });
+  });
+});
@@ -1,10 +1,14 @@
 import { expect } from 'chai';
 
 import {
+  getMinorUnits,
   getNestedValue,
   getPathArray,
+  getUpdateValue,
   isValidCurrencyCode,
+  replaceWildcard,
   setNestedValue,
+  setUpdateValue,
   defaultRound
 } from '../src/utils/helpers';
 
@@ -55,6 +59,10 @@ describe('helpers', () => {
       expect(getNestedValue({ a: 1 }, '')).to.be.undefined;
     });
 
+    it('should read Map entries', () => {
+      expect(getNestedValue({ a: new Map([['us', { b: 42 }]]) }, 'a.us.b')).to.equal(42);
+    });
+
     it('should work with array path', () => {
       const obj = { a: { b: { c: 42 } } };
 
@@ -95,6 +103,16 @@ describe('helpers', () => {
       expect(obj).to.deep.equal({ x: 5 });
     });
 
+    it('should write into Map entries', () => {
+      const prices = new Map<string, unknown>([['us', { amount: 1 }]]);
+
+      setNestedValue({ prices }, 'prices.us.converted', 2);
+      setNestedValue({ prices }, 'prices.uk.converted', 3);
+
+      expect(prices.get('us')).to.deep.equal({ amount: 1, converted: 2 });
+      expect(prices.get('uk')).to.deep.equal({ converted: 3 });
+    });
+
     it('should overwrite existing value', () => {
       const obj: Record<string, unknown> = { a: { b: { c: 1 } } };
 
@@ -104,6 +122,77 @@ describe('helpers', () => {
     });
   });
 
+  describe('#getUpdateValue', () => {
+    it('should read a dotted key', () => {
+      expect(getUpdateValue({ 'price.amount': 10 }, 'price.amount')).to.equal(10);
+    });
+
+    it('should read a nested value', () => {
+      expect(getUpdateValue({ price: { amount: 10 } }, 'price.amount')).to.equal(10);
+    });
+
+    it('should read a nested value below a dotted key', () => {
+      expect(getUpdateValue({ 'a.b': { c: 42 } }, 'a.b.c')).to.equal(42);
+    });
+
+    it('should prefer the longest matching key', () => {
+      expect(getUpdateValue({ a: { b: 1 }, 'a.b': 2 }, 'a.b')).to.equal(2);
+    });
+
+    it('should return undefined for missing path or non-object', () => {
+      expect(getUpdateValue({ 'price.currency': 'USD' }, 'price.amount')).to.be.undefined;
+      expect(getUpdateValue(null, 'a')).to.be.undefined;
+    });
+  });
+
+  describe('#getMinorUnits', () => {
+    it('should return the ISO 4217 exponent', () => {
+      expect(getMinorUnits('JPY')).to.equal(0);
+      expect(getMinorUnits('eur')).to.equal(2);
+      expect(getMinorUnits('KWD')).to.equal(3);
+    });
+  });
+
+  describe('#replaceWildcard', () => {
+    it('should replace only the first wildcard segment', () => {
+      expect(replaceWildcard('a.*.b.*.c', '0')).to.equal('a.0.b.*.c');
+    });
+
+    it('should replace a Map wildcard segment', () => {
+      expect(replaceWildcard('prices.$*.amount', 'us')).to.equal('prices.us.amount');
+    });
+
+    it('should return paths without a wildcard unchanged', () => {
+      expect(replaceWildcard('a.b', '$')).to.equal('a.b');
+    });
+  });
+
+  describe('#setUpdateValue', () => {
+    it('should write a dotted key when no prefix exists', () => {
+      const update: Record<string, unknown> = { 'price.amount': 10 };
+
+      setUpdateValue(update, 'price.converted', 20);
+
+      expect(update).to.deep.equal({ 'price.amount': 10, 'price.converted': 20 });
+    });
+
+    it('should nest under an existing prefix key', () => {
+      const update: Record<string, unknown> = { price: { amount: 10 } };
+
+      setUpdateValue(update, 'price.converted', 20);
+
+      expect(update).to.deep.equal({ price: { amount: 10, converted: 20 } });
+    });
+
+    it('should write a root key', () => {
+      const update: Record<string, unknown> = {};
+
+      setUpdateValue(update, 'result', 5);
+
+      expect(update).to.deep.equal({ result: 5 });
+    });
+  });
+
   describe('#defaultRound', () => {
     it('should round to two decimals', () => {
       expect(defaultRound(1.234)).to.equal(1.23);
@@ -117,6 +206,11 @@ describe('helpers', () => {
     it('should handle integers', () => {
       expect(defaultRound(5)).to.equal(5);
     });
+
+    it('should round to the given minor units', () => {
+      expect(defaultRound(1501.26, 0)).to.equal(1501);
+      expect(defaultRound(3.0712, 3)).to.equal(3.071);
+    });
   });
 
   describe('#isValidCurrencyCode', () => {
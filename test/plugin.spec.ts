@@ -1,9 +1,26 @@
 import { expect } from 'chai';
-import { Schema, model } from 'mongoose';
-
-import type { CurrencyPluginErrorContext, CurrencyPluginOptions, CurrencyPluginSuccessContext, CurrencyRateCache } from '../src/types';
+import { Error as MongooseError, Schema, Types, model } from 'mongoose';
+
+import type {
+  CurrencyPluginErrorContext,
+  CurrencyPluginLogDetails,
+  CurrencyPluginLogger,
+  CurrencyPluginOptions,
+  CurrencyPluginSuccessContext,
+  CurrencyRateCache,
+} from '../src/types';
 import { connectTestDB, disconnectTestDB, clearDatabase } from './setup';
-import { currencyConversionPlugin } from '../src';
+import {
+  CurrencyConversionError,
+  InvalidCurrencyCodeError,
+  InvalidRateError,
+  MissingSourceError,
+  PluginConfigError,
+  RateFetchError,
+  RateOutOfBoundsError,
+  currencyConversionPlugin,
+  getConversionReport,
+} from '../src';
 import { SimpleCache } from '../src/utils/cache';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -46,6 +63,26 @@ function addPlugin(
   return model(uniqueName(), schema);
 }
 
+/** A model converting the nested `price` (rate 2 from USD, 3 otherwise), for partial updates. */
+function buildPriceModel(opts: Partial<CurrencyPluginOptions> = {}) {
+  const schema = new Schema({
+    price: { amount: Number, currency: String, date: Date, converted: { ...RESULT_FIELD } },
+  });
+  return addPlugin(schema, {
+    fields: [
+      {
+        sourcePath: 'price.amount',
+        currencyPath: 'price.currency',
+        datePath: 'price.date',
+        targetPath: 'price.converted',
+        toCurrency: 'EUR',
+      },
+    ],
+    getRate: async (from: string) => (from === 'USD' ? 2 : 3),
+    ...opts,
+  });
+}
+
 class MockCache implements CurrencyRateCache<number> {
   store = new Map<string, number>();
   async get(key: string) { return this.store.get(key); }
@@ -141,6 +178,135 @@ describe('currencyConversionPlugin', () => {
         }),
       ).to.throw('invalid toCurrency "FAKE"');
     });
+
+    it('should throw an InvalidCurrencyCodeError carrying the invalid toCurrency', () => {
+      const schema = {} as Schema;
+      let err: unknown;
+      try {
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targetPath: 'c', toCurrency: 'FAKE' }],
+          getRate: async () => 1,
+        });
+      } catch (e) {
+        err = e;
+      }
+
+      expect(err).to.be.instanceOf(InvalidCurrencyCodeError);
+      expect((err as InvalidCurrencyCodeError).code).to.equal('FAKE');
+    });
+
+    it('should throw a PluginConfigError naming the option and field', () => {
+      const schema = {} as Schema;
+      let err: unknown;
+      try {
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targetPath: 'c', toCurrency: 'EUR', fallbackRate: -1 }],
+          getRate: async () => 1,
+        });
+      } catch (e) {
+        err = e;
+      }
+
+      expect(err).to.be.instanceOf(PluginConfigError);
+      expect(err).to.include({ option: 'fallbackRate', field: 'a' });
+    });
+
+    it('should throw if targets is an empty array', () => {
+      const schema = {} as Schema;
+      expect(() =>
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targets: [] }],
+          getRate: async () => 1,
+        }),
+      ).to.throw('"targets" of field "a" must be a non-empty array');
+    });
+
+    it('should throw if a toCurrency in targets is invalid', () => {
+      const schema = {} as Schema;
+      expect(() =>
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targets: [{ targetPath: 'c', toCurrency: 'FAKE' }] }],
+          getRate: async () => 1,
+        }),
+      ).to.throw('invalid toCurrency "FAKE"');
+    });
+
+    it('should throw if unit is not "major" or "minor"', () => {
+      const schema = {} as Schema;
+      expect(() =>
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targetPath: 'c', toCurrency: 'EUR', unit: 'cents' as never }],
+          getRate: async () => 1,
+        }),
+      ).to.throw('"unit" of field "a" must be "major" or "minor"');
+    });
+
+    it('should throw if rounding has an unknown mode', () => {
+      const schema = {} as Schema;
+      expect(() =>
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targetPath: 'c', toCurrency: 'EUR' }],
+          getRate: async () => 1,
+          rounding: 'up' as never,
+        }),
+      ).to.throw('option "rounding" must be one of');
+    });
+
+    it('should throw if round and rounding are combined', () => {
+      const schema = {} as Schema;
+      expect(() =>
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targetPath: 'c', toCurrency: 'EUR' }],
+          getRate: async () => 1,
+          round: Math.round,
+          rounding: 'ceil',
+        }),
+      ).to.throw('option "round" and option "rounding" cannot be combined');
+    });
+
+    it('should throw if a field-level override is invalid', () => {
+      const schema = {} as Schema;
+      expect(() =>
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targetPath: 'c', toCurrency: 'EUR', fallbackRate: -1 }],
+          getRate: async () => 1,
+        }),
+      ).to.throw('"fallbackRate" of field "a" must be a non-negative number');
+    });
+
+    it('should throw if a targetFields name is empty', () => {
+      const schema = {} as Schema;
+      expect(() =>
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targetPath: 'c', toCurrency: 'EUR' }],
+          getRate: async () => 1,
+          targetFields: { amount: '' },
+        }),
+      ).to.throw('option "targetFields.amount" must be a non-empty string');
+    });
+
+    it('should throw if logger is missing a method', () => {
+      const schema = {} as Schema;
+      expect(() =>
+        currencyConversionPlugin(schema, {
+          fields: [{ sourcePath: 'a', currencyPath: 'b', targetPath: 'c', toCurrency: 'EUR' }],
+          getRate: async () => 1,
+          logger: { warn: () => {}, error: () => {} } as unknown as CurrencyPluginLogger,
+        }),
+      ).to.throw('option "logger" must have debug, info, warn and error methods');
+    });
+
+    it('should throw if a wildcard sourcePath has no matching wildcard in targetPath', () => {
+      const schema = {} as Schema;
+      expect(() =>
+        currencyConversionPlugin(schema, {
+          fields: [
+            { sourcePath: 'items.*.price', currencyPath: 'currency', targetPath: 'total', toCurrency: 'EUR' },
+          ],
+          getRate: async () => 1,
+        }),
+      ).to.throw('must use the same number of wildcard segments');
+    });
   });
 
   // ── SimpleCache ───────────────────────────────────────────────────────────
@@ -220,6 +386,29 @@ describe('currencyConversionPlugin', () => {
       expect(saved?.result).to.be.undefined;
     });
 
+    it('should round to the minor units of the target currency by default', async () => {
+      const schema = buildSchema({ resultJpy: { ...RESULT_FIELD }, resultKwd: { ...RESULT_FIELD } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'price',
+            currencyPath: 'currency',
+            targets: [
+              { toCurrency: 'JPY', targetPath: 'resultJpy' },
+              { toCurrency: 'KWD', targetPath: 'resultKwd' },
+            ],
+          },
+        ],
+        getRate: async (_from, to) => (to === 'JPY' ? 150.126 : 0.30712),
+      });
+      const Doc = model(uniqueName(), schema);
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.resultJpy.amount).to.equal(1501);
+      expect(saved?.resultKwd.amount).to.equal(3.071);
+    });
+
     it('should apply a custom round function', async () => {
       const Doc = addPlugin(buildSchema(), {
         getRate: async () => 1.555,
@@ -231,6 +420,39 @@ describe('currencyConversionPlugin', () => {
       expect(saved?.result.amount).to.equal(15.55);
     });
 
+    it('should apply a built-in rounding mode without float errors', async () => {
+      const Doc = addPlugin(buildSchema(), { getRate: async () => 1, rounding: 'half-up' });
+      const doc = await new Doc({ price: 1.005, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      // Math.round(1.005 * 100) / 100 gives 1
+      expect(saved?.result.amount).to.equal(1.01);
+    });
+
+    it('should let a field override the rounding mode and precision', async () => {
+      const schema = buildSchema({ result2: { ...RESULT_FIELD } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'price', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR' },
+          {
+            sourcePath: 'price',
+            currencyPath: 'currency',
+            targetPath: 'result2',
+            toCurrency: 'GBP',
+            rounding: { mode: 'floor', precision: 0 },
+          },
+        ],
+        getRate: async () => 1,
+        rounding: 'half-even',
+      });
+      const Doc = model(uniqueName(), schema);
+      const doc = await new Doc({ price: 2.125, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.amount).to.equal(2.12);
+      expect(saved?.result2.amount).to.equal(2);
+    });
+
     it('should use datePath when provided', async () => {
       const schema = new Schema({
         price: Number,
@@ -348,6 +570,24 @@ describe('currencyConversionPlugin', () => {
       expect((capturedError as Error).message).to.include('out of bounds');
     });
 
+    it('should keep the default lower bound when rateValidation.min is undefined', async () => {
+      let capturedError: unknown;
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => 0,
+        rateValidation: { min: undefined, max: 5 },
+        onError: (ctx) => { capturedError = ctx.error; },
+      });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(capturedError).to.be.instanceOf(RateOutOfBoundsError);
+      expect((capturedError as RateOutOfBoundsError).bounds).to.deep.equal({
+        min: Number.EPSILON,
+        max: 5,
+      });
+      expect(saved?.result).to.be.undefined;
+    });
+
     it('should call onSuccess after a successful conversion', async () => {
       const calls: CurrencyPluginSuccessContext[] = [];
       const Doc = addPlugin(buildSchema(), { onSuccess: (ctx) => { calls.push(ctx); } });
@@ -440,6 +680,48 @@ describe('currencyConversionPlugin', () => {
       expect(ctx?.error).to.be.instanceOf(Error);
     });
 
+    it('should pass a RateFetchError with the original error as cause to onError', async () => {
+      const original = new Error('fail');
+      let ctx: CurrencyPluginErrorContext | undefined;
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => { throw original; },
+        onError: (c) => { ctx = c; },
+      });
+      await new Doc({ price: 10, currency: 'USD' }).save();
+
+      expect(ctx?.error).to.be.instanceOf(RateFetchError);
+      expect(ctx?.error.cause).to.equal(original);
+      expect((ctx?.error as RateFetchError).pair).to.include({ fromCurrency: 'USD', toCurrency: 'EUR' });
+    });
+
+    it('should pass an InvalidRateError to onError when getRate returns NaN', async () => {
+      let ctx: CurrencyPluginErrorContext | undefined;
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => NaN,
+        onError: (c) => { ctx = c; },
+      });
+      await new Doc({ price: 10, currency: 'USD' }).save();
+
+      expect(ctx?.error).to.be.instanceOf(InvalidRateError);
+      expect((ctx?.error as InvalidRateError).rate).to.be.NaN;
+    });
+
+    it('should pass a RateOutOfBoundsError with the rate and bounds to onError', async () => {
+      let ctx: CurrencyPluginErrorContext | undefined;
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => 999,
+        rateValidation: { min: 0, max: 10 },
+        onError: (c) => { ctx = c; },
+      });
+      await new Doc({ price: 10, currency: 'USD' }).save();
+
+      const error = ctx?.error as RateOutOfBoundsError;
+      expect(error).to.be.instanceOf(RateOutOfBoundsError);
+      expect(error.rate).to.equal(999);
+      expect(error.bounds).to.deep.equal({ min: 0, max: 10 });
+      expect(error.usedFallback).to.be.false;
+    });
+
     it('should log to console.error when getRate throws and onError is not set', async () => {
       const logged: string[] = [];
       const origError = console.error;
@@ -590,6 +872,118 @@ describe('currencyConversionPlugin', () => {
     });
   });
 
+  // ── insertMany ───────────────────────────────────────────────────────────
+
+  describe('pre("insertMany")', () => {
+    it('should convert every document in the batch', async () => {
+      const Doc = addPlugin(buildSchema());
+      await Doc.insertMany([
+        { price: 10, currency: 'USD' },
+        { price: 20, currency: 'USD' },
+      ]);
+      const docs = await Doc.find({}).sort({ price: 1 }).lean() as AnyDoc[];
+
+      expect(docs.map((d) => d.result.amount)).to.deep.equal([20, 40]);
+      expect(docs[0].result.currency).to.equal('EUR');
+    });
+
+    it('should fetch each distinct rate only once per batch', async () => {
+      const calls: string[] = [];
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async (from: string) => { calls.push(from); return 2; },
+      });
+      await Doc.insertMany([
+        { price: 10, currency: 'USD' },
+        { price: 20, currency: 'USD' },
+        { price: 30, currency: 'GBP' },
+        { price: 40, currency: 'USD' },
+      ]);
+
+      expect(calls.sort()).to.deep.equal(['GBP', 'USD']);
+    });
+
+    it('should convert hydrated documents passed to insertMany', async () => {
+      const Doc = addPlugin(buildSchema());
+      await Doc.insertMany([new Doc({ price: 5, currency: 'USD' })]);
+      const saved = await Doc.findOne({}).lean() as AnyDoc;
+
+      expect(saved?.result.amount).to.equal(10);
+    });
+
+    it('should skip conversion when skipCurrencyConversion option is true', async () => {
+      const Doc = addPlugin(buildSchema());
+      await Doc.insertMany([{ price: 10, currency: 'USD' }], { skipCurrencyConversion: true });
+      const saved = await Doc.findOne({}).lean() as AnyDoc;
+
+      expect(saved?.result).to.be.undefined;
+    });
+  });
+
+  // ── bulkWrite ────────────────────────────────────────────────────────────
+
+  describe('pre("bulkWrite")', () => {
+    it('should convert insertOne, replaceOne, updateOne and updateMany operations', async () => {
+      const Doc = addPlugin(buildSchema());
+      const a = await new Doc({ price: 1, currency: 'USD' }).save();
+      const b = await new Doc({ price: 1, currency: 'USD' }).save();
+      const c = await new Doc({ price: 1, currency: 'USD' }).save();
+
+      await Doc.bulkWrite([
+        { insertOne: { document: { price: 10, currency: 'USD' } } },
+        { replaceOne: { filter: { _id: a._id }, replacement: { price: 20, currency: 'USD' } } },
+        { updateOne: { filter: { _id: b._id }, update: { $set: { price: 30, currency: 'USD' } } } },
+        { updateMany: { filter: { _id: c._id }, update: { price: 40, currency: 'USD' } } },
+      ]);
+      const docs = await Doc.find({}).sort({ price: 1 }).lean() as AnyDoc[];
+
+      expect(docs.map((d) => d.result.amount)).to.deep.equal([20, 40, 60, 80]);
+    });
+
+    it('should convert $setOnInsert of upsert operations', async () => {
+      const Doc = addPlugin(buildSchema());
+      await Doc.bulkWrite([
+        {
+          updateOne: {
+            filter: { price: -999 },
+            update: { $setOnInsert: { price: 10, currency: 'USD' } },
+            upsert: true,
+          },
+        },
+      ]);
+      const doc = await Doc.findOne({ price: 10 }).lean() as AnyDoc;
+
+      expect(doc?.result.amount).to.equal(20);
+    });
+
+    it('should fetch each distinct rate only once across all operations', async () => {
+      let rateCalls = 0;
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => { rateCalls++; return 2; },
+      });
+      const created = await new Doc({ price: 1, currency: 'GBP' }).save();
+      rateCalls = 0;
+
+      await Doc.bulkWrite([
+        { insertOne: { document: { price: 10, currency: 'USD' } } },
+        { insertOne: { document: { price: 20, currency: 'USD' } } },
+        { updateOne: { filter: { _id: created._id }, update: { $set: { price: 30, currency: 'USD' } } } },
+      ]);
+
+      expect(rateCalls).to.equal(1);
+    });
+
+    it('should skip conversion when skipCurrencyConversion option is true', async () => {
+      const Doc = addPlugin(buildSchema());
+      await Doc.bulkWrite(
+        [{ insertOne: { document: { price: 10, currency: 'USD' } } }],
+        { skipCurrencyConversion: true },
+      );
+      const saved = await Doc.findOne({}).lean() as AnyDoc;
+
+      expect(saved?.result).to.be.undefined;
+    });
+  });
+
   // ── updateOne ────────────────────────────────────────────────────────────
 
   describe('pre("updateOne")', () => {
@@ -613,6 +1007,35 @@ describe('currencyConversionPlugin', () => {
       expect(updated?.result.amount).to.equal(40);
     });
 
+    it('should convert currency on updateOne with dotted $set keys', async () => {
+      const schema = new Schema({
+        price: { amount: Number, currency: String, note: String, converted: { ...RESULT_FIELD } },
+      });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'price.amount',
+            currencyPath: 'price.currency',
+            targetPath: 'price.converted',
+            toCurrency: 'EUR',
+          },
+        ],
+        getRate: async () => 2,
+      });
+      const Doc = model(uniqueName(), schema);
+      const created = await new Doc({ price: { amount: 5, currency: 'USD', note: 'keep' } }).save();
+
+      await Doc.updateOne(
+        { _id: created._id },
+        { $set: { 'price.amount': 100, 'price.currency': 'USD' } },
+      );
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.price.amount).to.equal(100);
+      expect(updated?.price.note).to.equal('keep'); // sibling field not clobbered
+      expect(updated?.price.converted.amount).to.equal(200);
+    });
+
     it('should rollback already-converted fields on updateOne when rollbackOnError is true', async () => {
       const schema = new Schema({
         price: Number,
@@ -787,6 +1210,1452 @@ describe('currencyConversionPlugin', () => {
     });
   });
 
+  // ── replaceOne / findOneAndReplace ───────────────────────────────────────
+
+  describe('pre("replaceOne") and pre("findOneAndReplace")', () => {
+    it('should convert the replacement document on replaceOne', async () => {
+      const Doc = addPlugin(buildSchema());
+      const created = await new Doc({ price: 5, currency: 'USD' }).save();
+
+      await Doc.replaceOne({ _id: created._id }, { price: 25, currency: 'USD' });
+      const replaced = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(replaced?.result.amount).to.equal(50);
+    });
+
+    it('should convert the replacement document on findOneAndReplace', async () => {
+      const Doc = addPlugin(buildSchema());
+      const created = await new Doc({ price: 5, currency: 'USD' }).save();
+
+      const replaced = await Doc.findOneAndReplace(
+        { _id: created._id },
+        { price: 30, currency: 'USD' },
+        { new: true },
+      );
+
+      expect((replaced as AnyDoc)?.result.amount).to.equal(60);
+    });
+
+    it('should skip conversion on replaceOne when skipCurrencyConversion is true', async () => {
+      const Doc = addPlugin(buildSchema());
+      const created = await new Doc({ price: 5, currency: 'USD' }).save();
+
+      await Doc.replaceOne(
+        { _id: created._id },
+        { price: 25, currency: 'USD' },
+        { skipCurrencyConversion: true } as never,
+      );
+      const replaced = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(replaced?.result).to.be.undefined;
+    });
+  });
+
+  // ── loadMissingFields ────────────────────────────────────────────────────
+
+  describe('loadMissingFields', () => {
+    it('should load the stored currency on updateOne when only the amount is set', async () => {
+      const Doc = buildPriceModel({ loadMissingFields: true });
+      const created = await new Doc({ price: { amount: 5, currency: 'USD' } }).save();
+
+      await Doc.updateOne({ _id: created._id }, { $set: { 'price.amount': 100 } });
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.price.converted.amount).to.equal(200);
+    });
+
+    it('should load the stored currency on findOneAndUpdate', async () => {
+      const Doc = buildPriceModel({ loadMissingFields: true });
+      const created = await new Doc({ price: { amount: 5, currency: 'GBP' } }).save();
+
+      const updated = await Doc.findOneAndUpdate(
+        { _id: created._id },
+        { $set: { 'price.amount': 10 } },
+        { new: true },
+      ).lean() as AnyDoc;
+
+      expect(updated?.price.converted.amount).to.equal(30);
+    });
+
+    it('should load the stored currency of the document picked by the sort', async () => {
+      const Doc = buildPriceModel({ loadMissingFields: true });
+      await new Doc({ price: { amount: 1, currency: 'USD' } }).save();
+      const gbp = await new Doc({ price: { amount: 2, currency: 'GBP' } }).save();
+
+      await Doc.findOneAndUpdate(
+        {},
+        { $set: { 'price.amount': 10 } },
+        { sort: { 'price.amount': -1 } },
+      );
+      const updated = await Doc.findById(gbp._id).lean() as AnyDoc;
+
+      expect(updated?.price.amount).to.equal(10);
+      expect(updated?.price.converted.amount).to.equal(30);
+    });
+
+    it('should convert each matched document with its own stored currency on updateMany', async () => {
+      const Doc = buildPriceModel({ loadMissingFields: true });
+      const usd = await new Doc({ price: { amount: 1, currency: 'USD' } }).save();
+      const gbp = await new Doc({ price: { amount: 1, currency: 'GBP' } }).save();
+
+      await Doc.updateMany({}, { $set: { 'price.amount': 10 } });
+      const updatedUsd = await Doc.findById(usd._id).lean() as AnyDoc;
+      const updatedGbp = await Doc.findById(gbp._id).lean() as AnyDoc;
+
+      expect(updatedUsd?.price.amount).to.equal(10);
+      expect(updatedUsd?.price.converted.amount).to.equal(20);
+      expect(updatedGbp?.price.converted.amount).to.equal(30);
+    });
+
+    it('should not load stored values when loadMissingFields is not set', async () => {
+      const Doc = buildPriceModel();
+      const created = await new Doc({ price: { amount: 5, currency: 'USD' } }).save();
+
+      await Doc.updateOne({ _id: created._id }, { $set: { 'price.amount': 100 } });
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.price.converted.amount).to.equal(10); // unchanged from save
+    });
+  });
+
+  // ── perDocumentConversion ────────────────────────────────────────────────
+
+  describe('perDocumentConversion', () => {
+    it('should convert updateMany per matched document', async () => {
+      const Doc = buildPriceModel({ perDocumentConversion: true });
+      const usd = await new Doc({ price: { amount: 1, currency: 'USD' } }).save();
+      const gbp = await new Doc({ price: { amount: 1, currency: 'GBP' } }).save();
+
+      await Doc.updateMany({}, { $set: { 'price.amount': 10 } });
+      const updatedUsd = await Doc.findById(usd._id).lean() as AnyDoc;
+      const updatedGbp = await Doc.findById(gbp._id).lean() as AnyDoc;
+
+      expect(updatedUsd?.price.converted.amount).to.equal(20);
+      expect(updatedGbp?.price.converted.amount).to.equal(30);
+    });
+
+    it('should use each document\'s stored date for the rate lookup', async () => {
+      const dates: string[] = [];
+      const Doc = buildPriceModel({
+        perDocumentConversion: true,
+        getRate: async (_f: string, _t: string, date?: Date) => {
+          dates.push(date!.toISOString().slice(0, 10));
+          return 2;
+        },
+      });
+      await new Doc({ price: { amount: 1, currency: 'USD', date: new Date('2025-01-01') } }).save();
+      await new Doc({ price: { amount: 1, currency: 'USD', date: new Date('2025-02-01') } }).save();
+      await new Doc({ price: { amount: 1, currency: 'USD', date: new Date('2025-02-01') } }).save();
+      dates.length = 0;
+
+      await Doc.updateMany({}, { $set: { 'price.amount': 10, 'price.currency': 'USD' } });
+
+      // one lookup per distinct pair and date across all matched documents
+      expect(dates.sort()).to.deep.equal(['2025-01-01', '2025-02-01']);
+    });
+
+    it('should keep fields the update sets completely in the update', async () => {
+      const Doc = buildPriceModel({ perDocumentConversion: true });
+      const gbp = await new Doc({ price: { amount: 1, currency: 'GBP' } }).save();
+
+      const query = Doc.updateMany(
+        {},
+        { $set: { price: { amount: 10, currency: 'USD', date: new Date('2025-01-01') } } },
+      );
+      await query;
+      const updated = await Doc.findById(gbp._id).lean() as AnyDoc;
+
+      expect((query.getUpdate() as AnyDoc).$set.price.converted.amount).to.equal(20);
+      expect(updated?.price.converted.amount).to.equal(20);
+    });
+
+    it('should enable per-document conversion through the query option', async () => {
+      const Doc = buildPriceModel();
+      const gbp = await new Doc({ price: { amount: 1, currency: 'GBP' } }).save();
+
+      await Doc.updateMany(
+        {},
+        { $set: { 'price.amount': 10 } },
+        { perDocumentConversion: true } as never,
+      );
+      const updated = await Doc.findById(gbp._id).lean() as AnyDoc;
+
+      expect(updated?.price.converted.amount).to.equal(30);
+    });
+  });
+
+  // ── $inc / $mul ──────────────────────────────────────────────────────────
+
+  describe('$inc and $mul', () => {
+    it('should recompute the target after $inc on updateOne', async () => {
+      const Doc = addPlugin(buildSchema());
+      const created = await new Doc({ price: 10, currency: 'USD' }).save();
+
+      await Doc.updateOne({ _id: created._id }, { $inc: { price: 5 } });
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.price).to.equal(15);
+      expect(updated?.result.amount).to.equal(30);
+    });
+
+    it('should recompute the target after $mul on findOneAndUpdate', async () => {
+      const Doc = addPlugin(buildSchema());
+      const created = await new Doc({ price: 10, currency: 'USD' }).save();
+
+      await Doc.findOneAndUpdate({ _id: created._id }, { $mul: { price: 3 } });
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.result.amount).to.equal(60);
+    });
+
+    it('should recompute the document picked by the sort on findOneAndUpdate', async () => {
+      const Doc = addPlugin(buildSchema());
+      const low = await new Doc({ price: 10, currency: 'USD' }).save();
+      const high = await new Doc({ price: 20, currency: 'USD' }).save();
+
+      await Doc.findOneAndUpdate({}, { $inc: { price: 1 } }, { sort: { price: -1 } });
+      const updatedLow = await Doc.findById(low._id).lean() as AnyDoc;
+      const updatedHigh = await Doc.findById(high._id).lean() as AnyDoc;
+
+      expect(updatedLow?.result.amount).to.equal(20);
+      expect(updatedHigh?.result.amount).to.equal(42);
+    });
+
+    it('should return the recomputed target with new: true', async () => {
+      const Doc = addPlugin(buildSchema());
+      const created = await new Doc({ price: 10, currency: 'USD' }).save();
+
+      const returned = await Doc.findOneAndUpdate(
+        { _id: created._id },
+        { $inc: { price: 5 } },
+        { new: true },
+      );
+
+      expect(returned?.get('result.amount')).to.equal(30);
+      expect(returned?.isModified()).to.be.false;
+    });
+
+    it('should recompute every matched document after $inc on updateMany', async () => {
+      const Doc = addPlugin(buildSchema());
+      await new Doc({ price: 10, currency: 'USD' }).save();
+      await new Doc({ price: 20, currency: 'USD' }).save();
+
+      await Doc.updateMany({}, { $inc: { price: 1 } });
+      const docs = await Doc.find({}).sort({ price: 1 }).lean() as AnyDoc[];
+
+      expect(docs.map((d) => d.result.amount)).to.deep.equal([22, 42]);
+    });
+
+    it('should recompute the target of a document upserted by findOneAndUpdate', async () => {
+      const Doc = addPlugin(buildSchema());
+
+      const returned = await Doc.findOneAndUpdate(
+        { currency: 'USD' },
+        { $inc: { price: 5 } },
+        { upsert: true, new: true },
+      );
+      await Doc.findOneAndUpdate({ currency: 'GBP' }, { $inc: { price: 5 } }, { upsert: true });
+      const gbp = await Doc.findOne({ currency: 'GBP' }).lean() as AnyDoc;
+
+      expect(returned?.get('result.amount')).to.equal(10);
+      expect(gbp?.result.amount).to.equal(10);
+    });
+
+    it('should recompute the target of a document inserted by an upsert', async () => {
+      const Doc = addPlugin(buildSchema());
+
+      await Doc.updateOne(
+        { price: -999 },
+        { $inc: { price: 1000 }, $setOnInsert: { currency: 'USD' } },
+        { upsert: true },
+      );
+      const doc = await Doc.findOne({}).lean() as AnyDoc;
+
+      expect(doc?.price).to.equal(1);
+      expect(doc?.result.amount).to.equal(2);
+    });
+  });
+
+  // ── pipeline updates ─────────────────────────────────────────────────────
+
+  describe('aggregation pipeline updates', () => {
+    it('should convert literal values set by a pipeline stage', async () => {
+      const Doc = addPlugin(buildSchema());
+      const created = await new Doc({ price: 5, currency: 'USD' }).save();
+
+      await Doc.updateOne({ _id: created._id }, [{ $set: { price: 10, currency: 'USD' } }]);
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.price).to.equal(10);
+      expect(updated?.result.amount).to.equal(20);
+      expect(updated?.result.currency).to.equal('EUR');
+    });
+
+    it('should read sources across $set and $addFields stages', async () => {
+      const Doc = addPlugin(buildSchema());
+      const created = await new Doc({ price: 5, currency: 'USD' }).save();
+
+      await Doc.findOneAndUpdate(
+        { _id: created._id },
+        [{ $set: { price: 7 } }, { $addFields: { currency: 'USD' } }],
+      );
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.result.amount).to.equal(14);
+    });
+
+    it('should warn and skip a field whose source is an expression', async () => {
+      const warnings: string[] = [];
+      const origWarn = console.warn;
+      console.warn = (msg: string) => warnings.push(msg);
+
+      const Doc = addPlugin(buildSchema());
+      const created = await new Doc({ price: 5, currency: 'USD' }).save();
+      await Doc.updateOne(
+        { _id: created._id },
+        [{ $set: { price: { $multiply: ['$price', 2] } } }],
+      );
+      console.warn = origWarn;
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(warnings.some((m) => m.includes('aggregation expression'))).to.be.true;
+      expect(updated?.price).to.equal(10);
+      expect(updated?.result.amount).to.equal(10); // unchanged from save
+    });
+  });
+
+  // ── Array paths ──────────────────────────────────────────────────────────
+
+  describe('array paths', () => {
+    function buildItemsModel(getRate: CurrencyPluginOptions['getRate'] = async () => 2) {
+      const schema = new Schema({
+        items: [{ price: { amount: Number, currency: String }, priceEur: { ...RESULT_FIELD } }],
+      });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'items.*.price.amount',
+            currencyPath: 'items.*.price.currency',
+            targetPath: 'items.*.priceEur',
+            toCurrency: 'EUR',
+          },
+        ],
+        getRate,
+      });
+      return model(uniqueName(), schema);
+    }
+
+    it('should convert every array element on save', async () => {
+      const Doc = buildItemsModel(async (from) => (from === 'USD' ? 2 : 3));
+      const doc = await new Doc({
+        items: [
+          { price: { amount: 10, currency: 'USD' } },
+          { price: { amount: 5, currency: 'GBP' } },
+        ],
+      }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.items[0].priceEur.amount).to.equal(20);
+      expect(saved?.items[1].priceEur.amount).to.equal(15);
+      expect(saved?.items[1].priceEur.currency).to.equal('EUR');
+    });
+
+    it('should fetch a shared rate once for all elements', async () => {
+      let calls = 0;
+      const Doc = buildItemsModel(async () => { calls++; return 2; });
+      await new Doc({
+        items: [
+          { price: { amount: 1, currency: 'USD' } },
+          { price: { amount: 2, currency: 'USD' } },
+          { price: { amount: 3, currency: 'USD' } },
+        ],
+      }).save();
+
+      expect(calls).to.equal(1);
+    });
+
+    it('should convert a positional $ update', async () => {
+      const Doc = buildItemsModel();
+      const created = await new Doc({ items: [{ price: { amount: 1, currency: 'USD' } }] }).save();
+
+      await Doc.updateOne(
+        { _id: created._id, 'items.price.amount': 1 },
+        { $set: { 'items.$.price': { amount: 7, currency: 'USD' } } },
+      );
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.items[0].priceEur.amount).to.equal(14);
+    });
+
+    it('should convert an all-positional $[] update', async () => {
+      const Doc = buildItemsModel();
+      const created = await new Doc({
+        items: [
+          { price: { amount: 1, currency: 'USD' } },
+          { price: { amount: 2, currency: 'USD' } },
+        ],
+      }).save();
+
+      await Doc.updateOne(
+        { _id: created._id },
+        { $set: { 'items.$[].price.amount': 4, 'items.$[].price.currency': 'USD' } },
+      );
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.items.map((i: AnyDoc) => i.priceEur.amount)).to.deep.equal([8, 8]);
+    });
+
+    it('should convert an array replaced by $set', async () => {
+      const Doc = buildItemsModel();
+      const created = await new Doc({ items: [] }).save();
+
+      await Doc.updateOne(
+        { _id: created._id },
+        { $set: { items: [{ price: { amount: 3, currency: 'USD' } }] } },
+      );
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.items[0].priceEur.amount).to.equal(6);
+    });
+  });
+
+  // ── Map paths ────────────────────────────────────────────────────────────
+
+  describe('Map paths', () => {
+    function buildPricesModel() {
+      const PriceSchema = new Schema(
+        { amount: Number, currency: String, converted: { ...RESULT_FIELD } },
+        { _id: false },
+      );
+      const schema = new Schema({ prices: { type: Map, of: PriceSchema } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'prices.$*.amount',
+            currencyPath: 'prices.$*.currency',
+            targetPath: 'prices.$*.converted',
+            toCurrency: 'EUR',
+          },
+        ],
+        getRate: async (from) => (from === 'USD' ? 2 : 3),
+      });
+      return model(uniqueName(), schema);
+    }
+
+    it('should convert every Map entry on save', async () => {
+      const Doc = buildPricesModel();
+      const doc = await new Doc({
+        prices: { us: { amount: 10, currency: 'USD' }, uk: { amount: 5, currency: 'GBP' } },
+      }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.prices.us.converted.amount).to.equal(20);
+      expect(saved?.prices.uk.converted.amount).to.equal(15);
+    });
+
+    it('should convert Map entries set with dotted keys', async () => {
+      const Doc = buildPricesModel();
+      const created = await new Doc({ prices: { us: { amount: 1, currency: 'USD' } } }).save();
+
+      await Doc.updateOne(
+        { _id: created._id },
+        { $set: { 'prices.us.amount': 4, 'prices.us.currency': 'USD' } },
+      );
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.prices.us.converted.amount).to.equal(8);
+    });
+
+    it('should convert a Map replaced by $set', async () => {
+      const Doc = buildPricesModel();
+      const created = await new Doc({ prices: {} }).save();
+
+      await Doc.updateOne(
+        { _id: created._id },
+        { $set: { prices: { uk: { amount: 4, currency: 'GBP' } } } },
+      );
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.prices.uk.converted.amount).to.equal(12);
+    });
+  });
+
+  // ── Multiple targets ─────────────────────────────────────────────────────
+
+  describe('multiple targets', () => {
+    function buildMultiTargetModel(getRate: CurrencyPluginOptions['getRate']) {
+      const schema = buildSchema({
+        resultUsd: { ...RESULT_FIELD },
+        resultGbp: { ...RESULT_FIELD },
+      });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'price',
+            currencyPath: 'currency',
+            targets: [
+              { toCurrency: 'EUR', targetPath: 'result' },
+              { toCurrency: 'USD', targetPath: 'resultUsd' },
+              { toCurrency: 'GBP', targetPath: 'resultGbp' },
+            ],
+          },
+        ],
+        getRate,
+      });
+      return model(uniqueName(), schema);
+    }
+
+    it('should write every target from one source field', async () => {
+      const Doc = buildMultiTargetModel(async (_from, to) => (to === 'EUR' ? 2 : 4));
+      const doc = await new Doc({ price: 10, currency: 'CHF' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.amount).to.equal(20);
+      expect(saved?.resultUsd.amount).to.equal(40);
+      expect(saved?.resultGbp.currency).to.equal('GBP');
+    });
+
+    it('should skip only the target matching the source currency', async () => {
+      const calls: string[] = [];
+      const Doc = buildMultiTargetModel(async (from, to) => { calls.push(`${from}_${to}`); return 2; });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(calls).to.have.members(['USD_EUR', 'USD_GBP']);
+      expect(saved?.resultUsd).to.be.undefined;
+    });
+
+    it('should convert every target in updates', async () => {
+      const Doc = buildMultiTargetModel(async () => 3);
+      const created = await new Doc({ price: 1, currency: 'CHF' }).save();
+
+      await Doc.updateOne({ _id: created._id }, { $set: { price: 10, currency: 'CHF' } });
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.result.amount).to.equal(30);
+      expect(updated?.resultGbp.amount).to.equal(30);
+    });
+  });
+
+  // ── Dynamic target currency ──────────────────────────────────────────────
+
+  describe('toCurrencyPath', () => {
+    function buildTenantModel(opts: Partial<CurrencyPluginOptions> = {}) {
+      const schema = buildSchema({ tenant: { reportingCurrency: String } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'price',
+            currencyPath: 'currency',
+            targetPath: 'result',
+            toCurrencyPath: 'tenant.reportingCurrency',
+          },
+        ],
+        getRate: async (_from, to) => (to === 'GBP' ? 3 : 2),
+        ...opts,
+      });
+      return model(uniqueName(), schema);
+    }
+
+    it('should convert into the currency stored on the document', async () => {
+      const Doc = buildTenantModel();
+      const doc = await new Doc({
+        price: 10,
+        currency: 'USD',
+        tenant: { reportingCurrency: 'GBP' },
+      }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.amount).to.equal(30);
+      expect(saved?.result.currency).to.equal('GBP');
+    });
+
+    it('should warn and skip when the stored currency is invalid', async () => {
+      const warnings: string[] = [];
+      const origWarn = console.warn;
+      console.warn = (msg: string) => warnings.push(msg);
+
+      const Doc = buildTenantModel();
+      const doc = await new Doc({
+        price: 10,
+        currency: 'USD',
+        tenant: { reportingCurrency: 'FAKE' },
+      }).save();
+      console.warn = origWarn;
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(warnings.some((m) => m.includes('invalid target currency'))).to.be.true;
+      expect(saved?.result).to.be.undefined;
+    });
+
+    it('should fall back to toCurrency when the document has no value', async () => {
+      const schema = buildSchema({ tenant: { reportingCurrency: String } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'price',
+            currencyPath: 'currency',
+            targetPath: 'result',
+            toCurrency: 'EUR',
+            toCurrencyPath: 'tenant.reportingCurrency',
+          },
+        ],
+        getRate: async () => 2,
+      });
+      const Doc = model(uniqueName(), schema);
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.currency).to.equal('EUR');
+    });
+
+    it('should load the target currency with loadMissingFields', async () => {
+      const Doc = buildTenantModel({ loadMissingFields: true });
+      const created = await new Doc({
+        price: 1,
+        currency: 'USD',
+        tenant: { reportingCurrency: 'GBP' },
+      }).save();
+
+      await Doc.updateOne({ _id: created._id }, { $set: { price: 5, currency: 'USD' } });
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.result.amount).to.equal(15);
+      expect(updated?.result.currency).to.equal('GBP');
+    });
+  });
+
+  // ── Decimal128 ───────────────────────────────────────────────────────────
+
+  describe('Decimal128 amounts', () => {
+    const DECIMAL_RESULT = { amount: Schema.Types.Decimal128, currency: String, date: Date };
+
+    it('should convert a Decimal128 amount exactly into a Decimal128 target', async () => {
+      const Doc = addPlugin(
+        new Schema({ price: Schema.Types.Decimal128, currency: String, result: DECIMAL_RESULT }),
+        { getRate: async () => 1.1 },
+      );
+      const doc = await new Doc({ price: '0.15', currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      // 0.15 * 1.1 is 0.16500000000000004 in floating point but exactly 0.165
+      expect(saved?.result.amount).to.be.instanceOf(Types.Decimal128);
+      expect(saved?.result.amount.toString()).to.equal('0.17');
+    });
+
+    it('should write a Number target from a Decimal128 amount', async () => {
+      const Doc = addPlugin(
+        new Schema({ price: Schema.Types.Decimal128, currency: String, result: { ...RESULT_FIELD } }),
+        { getRate: async () => 2 },
+      );
+      const doc = await new Doc({ price: '10.25', currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.amount).to.equal(20.5);
+    });
+
+    it('should convert a Decimal128 amount set by an update', async () => {
+      const Doc = addPlugin(
+        new Schema({ price: Schema.Types.Decimal128, currency: String, result: DECIMAL_RESULT }),
+        { getRate: async () => 1.1 },
+      );
+      const created = await new Doc({ price: '1', currency: 'USD' }).save();
+
+      await Doc.updateOne({ _id: created._id }, { $set: { price: '1.005', currency: 'USD' } });
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.result.amount.toString()).to.equal('1.11');
+    });
+
+    it('should skip numeric strings on Number paths unless allowNumericStrings is set', async () => {
+      const warnings: string[] = [];
+      const origWarn = console.warn;
+      console.warn = (msg: string) => warnings.push(msg);
+
+      const Strict = addPlugin(buildSchema({ price: String }));
+      const Loose = addPlugin(buildSchema({ price: String }), { allowNumericStrings: true });
+      const strict = await new Strict({ price: '10', currency: 'USD' }).save();
+      const loose = await new Loose({ price: '10', currency: 'USD' }).save();
+      console.warn = origWarn;
+
+      expect(warnings.some((m) => m.includes('non-numeric amount'))).to.be.true;
+      expect((await Strict.findById(strict._id).lean() as AnyDoc)?.result).to.be.undefined;
+      expect((await Loose.findById(loose._id).lean() as AnyDoc)?.result.amount).to.equal(20);
+    });
+
+    it('should skip a product that does not fit the Decimal128 target', async () => {
+      const Doc = addPlugin(
+        new Schema({ price: Schema.Types.Decimal128, currency: String, result: DECIMAL_RESULT }),
+        { getRate: async () => 1.1 },
+      );
+
+      const doc = await new Doc({
+        price: '99999999999999999999999999999999.99',
+        currency: 'USD',
+      }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result).to.be.undefined;
+      expect(getConversionReport(doc)?.[0]).to.include({
+        status: 'failed',
+        reason: 'converted amount out of range',
+      });
+    });
+
+    it('should treat strings outside the Decimal128 range as non-numeric', async () => {
+      const Doc = addPlugin(buildSchema({ price: String }), {
+        allowNumericStrings: true,
+        strict: true,
+      });
+
+      const err = await new Doc({ price: '1e10000000', currency: 'USD' })
+        .save()
+        .then(() => null, (e) => e);
+
+      expect(err).to.be.instanceOf(CurrencyConversionError);
+      expect(err.failures[0].reason).to.equal('non-numeric amount');
+    });
+  });
+
+  // ── Minor units ──────────────────────────────────────────────────────────
+
+  describe('unit: "minor"', () => {
+    function buildCentsModel(getRate: CurrencyPluginOptions['getRate']) {
+      const schema = new Schema({
+        amountCents: Number,
+        currency: String,
+        jpy: { ...RESULT_FIELD },
+        kwd: { ...RESULT_FIELD },
+      });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'amountCents',
+            currencyPath: 'currency',
+            unit: 'minor',
+            targets: [
+              { toCurrency: 'JPY', targetPath: 'jpy' },
+              { toCurrency: 'KWD', targetPath: 'kwd' },
+            ],
+          },
+        ],
+        getRate,
+      });
+      return model(uniqueName(), schema);
+    }
+
+    it('should scale by the exponents of both currencies', async () => {
+      const Doc = buildCentsModel(async (_from, to) => (to === 'JPY' ? 150.123 : 0.307));
+      const doc = await new Doc({ amountCents: 1234, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      // 12.34 USD → 1852.5178 JPY (no minor units) and 3.78838 KWD (3 minor units)
+      expect(saved?.jpy.amount).to.equal(1853);
+      expect(saved?.kwd.amount).to.equal(3788);
+    });
+
+    it('should convert from a currency without minor units', async () => {
+      const schema = new Schema({ amountMinor: Number, currency: String, result: { ...RESULT_FIELD } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'amountMinor', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR', unit: 'minor' },
+        ],
+        getRate: async () => 0.0062,
+      });
+      const Doc = model(uniqueName(), schema);
+      const doc = await new Doc({ amountMinor: 1000, currency: 'JPY' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.amount).to.equal(620);
+    });
+
+    it('should skip a non-integer amount, which is likely in major units', async () => {
+      const warnings: string[] = [];
+      const origWarn = console.warn;
+      console.warn = (msg: string) => warnings.push(msg);
+
+      const Doc = buildCentsModel(async () => 2);
+      const doc = await new Doc({ amountCents: 10.5, currency: 'USD' }).save();
+      console.warn = origWarn;
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(warnings.some((m) => m.includes('non-integer amount'))).to.be.true;
+      expect(saved?.jpy).to.be.undefined;
+      expect(getConversionReport(doc)?.[0]).to.include({
+        status: 'skipped',
+        reason: 'non-integer minor-unit amount',
+      });
+    });
+
+    it('should reject a non-integer amount as a strict failure and with validateSources', async () => {
+      const schema = new Schema({ amountCents: Number, currency: String, result: { ...RESULT_FIELD } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'amountCents', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR', unit: 'minor', strict: true },
+        ],
+        getRate: async () => 2,
+        validateSources: true,
+      });
+      const Doc = model(uniqueName(), schema);
+
+      const validationErr = new Doc({ amountCents: 10.5, currency: 'USD' }).validateSync();
+      const saveErr = await Doc.insertMany([{ amountCents: 10.5, currency: 'USD' }]).then(
+        () => null,
+        (e) => e,
+      );
+
+      expect(validationErr?.errors.amountCents.message).to.equal('Non-integer amount in minor units');
+      expect(saveErr).to.be.instanceOf(CurrencyConversionError);
+      expect(saveErr.failures[0].error).to.be.instanceOf(MissingSourceError);
+    });
+  });
+
+  // ── Field-level overrides ────────────────────────────────────────────────
+
+  describe('field-level overrides', () => {
+    it('should use the field getRate and cache its rates separately', async () => {
+      const cache = new MockCache();
+      const schema = buildSchema({ tax: Number, taxConverted: { ...RESULT_FIELD } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'price', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR' },
+          {
+            sourcePath: 'tax',
+            currencyPath: 'currency',
+            targetPath: 'taxConverted',
+            toCurrency: 'EUR',
+            getRate: async () => 3,
+          },
+        ],
+        getRate: async () => 2,
+        cache,
+      });
+      const Doc = model(uniqueName(), schema);
+      const doc = await new Doc({ price: 10, tax: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.amount).to.equal(20);
+      expect(saved?.taxConverted.amount).to.equal(30);
+      expect(cache.store.size).to.equal(2);
+    });
+
+    it('should apply field-level round, fallbackRate and rateValidation', async () => {
+      const schema = buildSchema({ btc: Number, btcConverted: { ...RESULT_FIELD } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'price', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR' },
+          {
+            sourcePath: 'btc',
+            currencyPath: 'currency',
+            targetPath: 'btcConverted',
+            toCurrency: 'EUR',
+            round: (v) => Math.round(v * 1e8) / 1e8,
+            rateValidation: { max: 1 },
+            fallbackRate: 0.123456789,
+          },
+        ],
+        getRate: async () => 2,
+      });
+      const Doc = model(uniqueName(), schema);
+      const doc = await new Doc({ price: 1, btc: 1, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.amount).to.equal(2);
+      expect(saved?.btcConverted.amount).to.equal(0.12345679);
+    });
+
+    it('should apply a field-level dateTransform', async () => {
+      const dates: string[] = [];
+      const schema = buildSchema({ tax: Number, taxConverted: { ...RESULT_FIELD } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'tax',
+            currencyPath: 'currency',
+            targetPath: 'taxConverted',
+            toCurrency: 'EUR',
+            dateTransform: () => new Date('2024-01-01'),
+          },
+        ],
+        getRate: async (_from, _to, date) => { dates.push(date!.toISOString().slice(0, 10)); return 2; },
+      });
+      const Doc = model(uniqueName(), schema);
+      await new Doc({ tax: 1, currency: 'USD' }).save();
+
+      expect(dates).to.deep.equal(['2024-01-01']);
+    });
+  });
+
+  // ── when ─────────────────────────────────────────────────────────────────
+
+  describe('when', () => {
+    function buildConditionalModel(when: NonNullable<CurrencyPluginOptions['fields'][number]['when']>) {
+      const schema = buildSchema({ status: String });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'price', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR', when },
+        ],
+        getRate: async () => 2,
+      });
+      return model(uniqueName(), schema);
+    }
+
+    it('should skip documents the predicate rejects', async () => {
+      const Doc = buildConditionalModel((doc) => doc.status !== 'draft');
+      const draft = await new Doc({ price: 10, currency: 'USD', status: 'draft' }).save();
+      const final = await new Doc({ price: 10, currency: 'USD', status: 'final' }).save();
+
+      expect((await Doc.findById(draft._id).lean() as AnyDoc)?.result).to.be.undefined;
+      expect((await Doc.findById(final._id).lean() as AnyDoc)?.result.amount).to.equal(20);
+    });
+
+    it('should pass the operation and a path reader to the predicate', async () => {
+      const calls: string[] = [];
+      const Doc = buildConditionalModel((_doc, ctx) => {
+        calls.push(`${ctx.operation}:${ctx.get('status')}`);
+        return true;
+      });
+      await new Doc({ price: 1, currency: 'USD', status: 'a' }).save();
+      await Doc.updateOne(
+        { price: -1 },
+        { $set: { price: 2, currency: 'USD' }, $setOnInsert: { status: 'b' } },
+        { upsert: true },
+      );
+
+      expect(calls).to.deep.equal(['save:a', 'update:undefined', 'upsert:b']);
+    });
+
+    it('should warn and skip the field when the predicate throws', async () => {
+      const warnings: string[] = [];
+      const origWarn = console.warn;
+      console.warn = (msg: string) => warnings.push(msg);
+
+      const Doc = buildConditionalModel(() => { throw new Error('boom'); });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      console.warn = origWarn;
+
+      expect(warnings.some((m) => m.includes('when() threw'))).to.be.true;
+      expect((await Doc.findById(doc._id).lean() as AnyDoc)?.result).to.be.undefined;
+    });
+  });
+
+  // ── Metadata ─────────────────────────────────────────────────────────────
+
+  describe('metadata', () => {
+    const AUDITED_RESULT = {
+      ...RESULT_FIELD,
+      rate: Number,
+      usedFallback: Boolean,
+      provider: String,
+      fetchedAt: Date,
+      originalAmount: Number,
+      originalCurrency: String,
+    };
+
+    it('should write the rate and provenance keys declared by the target', async () => {
+      const Doc = addPlugin(buildSchema({ result: AUDITED_RESULT }), {
+        getRate: async () => 2,
+        metadata: true,
+        provider: 'ecb',
+      });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result).to.include({
+        amount: 20,
+        rate: 2,
+        usedFallback: false,
+        provider: 'ecb',
+        originalAmount: 10,
+        originalCurrency: 'USD',
+      });
+      expect(saved?.result.fetchedAt).to.be.instanceOf(Date);
+    });
+
+    it('should record when the fallback rate was used', async () => {
+      const Doc = addPlugin(buildSchema({ result: AUDITED_RESULT }), {
+        getRate: async () => { throw new Error('down'); },
+        fallbackRate: 1.5,
+        metadata: true,
+      });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.rate).to.equal(1.5);
+      expect(saved?.result.usedFallback).to.be.true;
+    });
+
+    it('should skip keys the target does not declare', async () => {
+      const Doc = addPlugin(buildSchema({ result: { ...RESULT_FIELD, rate: Number } }), {
+        metadata: true,
+        provider: 'ecb',
+      });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(Object.keys(saved?.result).sort()).to.deep.equal(['amount', 'currency', 'date', 'rate']);
+    });
+
+    it('should not write metadata unless enabled', async () => {
+      const Doc = addPlugin(buildSchema({ result: AUDITED_RESULT }));
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.rate).to.be.undefined;
+    });
+  });
+
+  // ── Target shape ─────────────────────────────────────────────────────────
+
+  describe('targetFields and buildTarget', () => {
+    const LEGACY_RESULT = { value: Number, ccy: String, asOf: Date };
+
+    it('should write the mapped sub-field names', async () => {
+      const Doc = addPlugin(buildSchema({ result: LEGACY_RESULT }), {
+        targetFields: { amount: 'value', currency: 'ccy', date: 'asOf' },
+      });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result).to.include({ value: 20, ccy: 'EUR' });
+      expect(saved?.result.asOf).to.be.instanceOf(Date);
+    });
+
+    it('should apply mapped names to updates', async () => {
+      const Doc = addPlugin(buildSchema({ result: LEGACY_RESULT }), {
+        targetFields: { amount: 'value', currency: 'ccy', date: 'asOf' },
+      });
+      const created = await new Doc({ price: 5, currency: 'USD' }).save();
+
+      await Doc.updateOne({ _id: created._id }, { $set: { price: 10, currency: 'USD' } });
+      const updated = await Doc.findById(created._id).lean() as AnyDoc;
+
+      expect(updated?.result.value).to.equal(20);
+    });
+
+    it('should let a field override the plugin-level names', async () => {
+      const schema = buildSchema({ legacy: LEGACY_RESULT });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'price', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR' },
+          {
+            sourcePath: 'price',
+            currencyPath: 'currency',
+            targetPath: 'legacy',
+            toCurrency: 'GBP',
+            targetFields: { amount: 'value', currency: 'ccy', date: 'asOf' },
+          },
+        ],
+        getRate: async () => 2,
+      });
+      const Doc = model(uniqueName(), schema);
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result.amount).to.equal(20);
+      expect(saved?.legacy.value).to.equal(20);
+    });
+
+    it('should skip targets that do not declare the mapped amount path', async () => {
+      const warnings: string[] = [];
+      const origWarn = console.warn;
+      console.warn = (msg: string) => warnings.push(msg);
+
+      const Doc = addPlugin(buildSchema(), { targetFields: { amount: 'value' } });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      console.warn = origWarn;
+
+      expect(warnings.some((m) => m.includes("targetPath 'result' does not exist"))).to.be.true;
+      expect((await Doc.findById(doc._id).lean() as AnyDoc)?.result).to.be.undefined;
+    });
+
+    it('should write the value returned by buildTarget', async () => {
+      const Doc = addPlugin(buildSchema({ result: { total: Number, fx: Number } }), {
+        buildTarget: ({ amount, rate }) => ({ total: amount, fx: rate }),
+      });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const saved = await Doc.findById(doc._id).lean() as AnyDoc;
+
+      expect(saved?.result).to.deep.equal({ total: 20, fx: 2 });
+    });
+
+    it('should warn and skip the target when buildTarget throws', async () => {
+      const warnings: string[] = [];
+      const origWarn = console.warn;
+      console.warn = (msg: string) => warnings.push(msg);
+
+      const Doc = addPlugin(buildSchema(), {
+        buildTarget: () => { throw new Error('boom'); },
+      });
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      console.warn = origWarn;
+
+      expect(warnings.some((m) => m.includes('buildTarget threw'))).to.be.true;
+      expect((await Doc.findById(doc._id).lean() as AnyDoc)?.result).to.be.undefined;
+    });
+  });
+
+  // ── Strict mode ──────────────────────────────────────────────────────────
+
+  describe('strict', () => {
+    function silenced<T>(fn: () => Promise<T>): Promise<T> {
+      const origWarn = console.warn;
+      const origError = console.error;
+      console.warn = () => {};
+      console.error = () => {};
+      return fn().finally(() => {
+        console.warn = origWarn;
+        console.error = origError;
+      });
+    }
+
+    it('should reject the save with every failed field', async () => {
+      const schema = buildSchema({ cost: Number, costGbp: { ...RESULT_FIELD } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'price', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR' },
+          { sourcePath: 'cost', currencyPath: 'currency', targetPath: 'costGbp', toCurrency: 'GBP' },
+        ],
+        getRate: async (_from, to) => {
+          if (to === 'GBP') throw new Error('down');
+          return 2;
+        },
+        strict: true,
+      });
+      const Doc = model(uniqueName(), schema);
+
+      const err = await silenced(() =>
+        new Doc({ price: 10, cost: 5, currency: 'USD' }).save().then(() => null, (e) => e),
+      );
+
+      expect(err).to.be.instanceOf(CurrencyConversionError);
+      expect(err.failures).to.have.length(1);
+      expect(err.failures[0]).to.include({ field: 'cost', targetPath: 'costGbp', reason: 'rate unavailable' });
+      expect(err.failures[0].error).to.be.instanceOf(Error);
+      expect(await Doc.countDocuments()).to.equal(0);
+    });
+
+    it('should reject the save on an invalid source currency', async () => {
+      const Doc = addPlugin(buildSchema(), { strict: true });
+
+      const err = await silenced(() =>
+        new Doc({ price: 10, currency: 'ZZZ' }).save().then(() => null, (e) => e),
+      );
+
+      expect(err).to.be.instanceOf(CurrencyConversionError);
+      expect(err.failures[0]).to.include({ field: 'price', reason: "invalid source currency code 'ZZZ'" });
+      expect(err.failures[0].error).to.be.instanceOf(InvalidCurrencyCodeError);
+    });
+
+    it('should reject the update', async () => {
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => { throw new Error('down'); },
+        strict: true,
+      });
+      const created = await Doc.collection.insertOne({ price: 5, currency: 'USD' });
+
+      const err = await silenced(() =>
+        Doc.updateOne({ _id: created.insertedId }, { $set: { price: 10, currency: 'USD' } }).then(
+          () => null,
+          (e) => e,
+        ),
+      );
+
+      expect(err).to.be.instanceOf(CurrencyConversionError);
+      expect((await Doc.findById(created.insertedId).lean() as AnyDoc)?.price).to.equal(5);
+    });
+
+    it('should still save when a fallback rate is used', async () => {
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => { throw new Error('down'); },
+        fallbackRate: 1.5,
+        strict: true,
+      });
+      const doc = await silenced(() => new Doc({ price: 10, currency: 'USD' }).save());
+
+      expect((await Doc.findById(doc._id).lean() as AnyDoc)?.result.amount).to.equal(15);
+    });
+
+    it('should only reject failures of strict fields', async () => {
+      const schema = buildSchema({ cost: Number, costGbp: { ...RESULT_FIELD } });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'price', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR' },
+          { sourcePath: 'cost', currencyPath: 'currency', targetPath: 'costGbp', toCurrency: 'GBP', strict: true },
+        ],
+        getRate: async () => { throw new Error('down'); },
+      });
+      const Doc = model(uniqueName(), schema);
+
+      const err = await silenced(() =>
+        new Doc({ price: 10, cost: 5, currency: 'USD' }).save().then(() => null, (e) => e),
+      );
+
+      expect(err.failures.map((failure: AnyDoc) => failure.field)).to.deep.equal(['cost']);
+    });
+
+    it('should not reject a field-level strict: false', async () => {
+      const schema = buildSchema();
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          { sourcePath: 'price', currencyPath: 'currency', targetPath: 'result', toCurrency: 'EUR', strict: false },
+        ],
+        getRate: async () => { throw new Error('down'); },
+        strict: true,
+      });
+      const Doc = model(uniqueName(), schema);
+      const doc = await silenced(() => new Doc({ price: 10, currency: 'USD' }).save());
+
+      expect((await Doc.findById(doc._id).lean() as AnyDoc)?.result).to.be.undefined;
+    });
+  });
+
+  // ── Logger ───────────────────────────────────────────────────────────────
+
+  describe('logger', () => {
+    type Entry = { level: string; message: string; details: CurrencyPluginLogDetails };
+
+    function recordingLogger(entries: Entry[]): CurrencyPluginLogger {
+      const record = (level: string) => (details: CurrencyPluginLogDetails, message: string) => {
+        entries.push({ level, message, details });
+      };
+      return { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') };
+    }
+
+    it('should pass warnings with structured details to the logger', async () => {
+      const entries: Entry[] = [];
+      const Doc = addPlugin(buildSchema(), { logger: recordingLogger(entries) });
+      await new Doc({ price: 10, currency: 'ZZZ' }).save();
+
+      expect(entries).to.have.length(1);
+      expect(entries[0].level).to.equal('warn');
+      expect(entries[0].message).to.include('Invalid source currency code');
+      expect(entries[0].details).to.include({ field: 'price', path: 'currency', fromCurrency: 'ZZZ' });
+    });
+
+    it('should pass rate errors with the pair, date and error', async () => {
+      const entries: Entry[] = [];
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => { throw new Error('down'); },
+        logger: recordingLogger(entries),
+      });
+      await new Doc({ price: 10, currency: 'USD' }).save();
+
+      const [entry] = entries;
+      expect(entry.level).to.equal('error');
+      expect(entry.details).to.include({ field: 'price', fromCurrency: 'USD', toCurrency: 'EUR' });
+      expect(entry.details.date).to.be.instanceOf(Date);
+      expect(entry.details.error).to.be.instanceOf(RateFetchError);
+    });
+
+    it('should log conversions and fallback rates below the default level', async () => {
+      const entries: Entry[] = [];
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => { throw new Error('down'); },
+        fallbackRate: 1.5,
+        logger: recordingLogger(entries),
+        logLevel: 'debug',
+      });
+      await new Doc({ price: 10, currency: 'USD' }).save();
+
+      expect(entries.map(({ level }) => level)).to.deep.equal(['info', 'debug']);
+      expect(entries[1].details).to.include({ targetPath: 'result', rate: 1.5 });
+    });
+
+    it('should not log debug entries at the default level', async () => {
+      const entries: Entry[] = [];
+      const Doc = addPlugin(buildSchema(), { logger: recordingLogger(entries) });
+      await new Doc({ price: 10, currency: 'USD' }).save();
+
+      expect(entries).to.be.empty;
+    });
+
+    it('should log nothing with logLevel "silent"', async () => {
+      const entries: Entry[] = [];
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => { throw new Error('down'); },
+        logger: recordingLogger(entries),
+        logLevel: 'silent',
+      });
+      await new Doc({ price: 10, currency: 'ZZZ' }).save();
+      await new Doc({ price: 10, currency: 'USD' }).save();
+
+      expect(entries).to.be.empty;
+    });
+  });
+
+  // ── Source validation ────────────────────────────────────────────────────
+
+  describe('validateSources', () => {
+    function buildValidatedModel() {
+      const schema = buildSchema({ price: Schema.Types.Mixed, soldAt: String, status: String });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'price',
+            currencyPath: 'currency',
+            datePath: 'soldAt',
+            targetPath: 'result',
+            toCurrency: 'EUR',
+            when: (doc) => doc.status !== 'draft',
+          },
+        ],
+        getRate: async () => 2,
+        validateSources: true,
+      });
+      return model(uniqueName(), schema);
+    }
+
+    it('should report invalid source values as ValidatorErrors on their paths', () => {
+      const Doc = buildValidatedModel();
+      const err = new Doc({ price: 'abc', currency: 'ZZZ', soldAt: 'never' }).validateSync();
+
+      expect(err?.errors.price).to.be.instanceOf(MongooseError.ValidatorError);
+      expect(err?.errors.price.kind).to.equal('currency');
+      expect(err?.errors.currency.message).to.equal('Invalid currency code "ZZZ"');
+      expect(err?.errors.soldAt).to.be.instanceOf(MongooseError.ValidatorError);
+    });
+
+    it('should report a missing source currency even though its path is unset', () => {
+      const Doc = buildValidatedModel();
+      const err = new Doc({ price: 10 }).validateSync();
+
+      expect(Object.keys(err?.errors ?? {})).to.deep.equal(['currency']);
+    });
+
+    it('should reject save() with a ValidationError', async () => {
+      const Doc = buildValidatedModel();
+
+      const err = await new Doc({ price: 10, currency: 'ZZZ' }).save().then(() => null, (e) => e);
+
+      expect(err).to.be.instanceOf(MongooseError.ValidationError);
+      expect(err.errors.currency).to.be.instanceOf(MongooseError.ValidatorError);
+      expect(await Doc.countDocuments()).to.equal(0);
+    });
+
+    it('should check a changed currency of a stored document', async () => {
+      const Doc = buildValidatedModel();
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      doc.set('currency', 'ZZZ');
+
+      const err = await doc.validate().then(() => null, (e) => e);
+
+      expect(err?.errors.currency).to.be.instanceOf(MongooseError.ValidatorError);
+    });
+
+    it('should check source paths inside a single-nested subdocument', async () => {
+      const schema = new Schema({
+        price: new Schema({ amount: Number, currency: String }, { _id: false }),
+        result: { ...RESULT_FIELD },
+      });
+      schema.plugin(currencyConversionPlugin, {
+        fields: [
+          {
+            sourcePath: 'price.amount',
+            currencyPath: 'price.currency',
+            targetPath: 'result',
+            toCurrency: 'EUR',
+          },
+        ],
+        getRate: async () => 2,
+        validateSources: true,
+      });
+      const Doc = model(uniqueName(), schema);
+
+      const err = new Doc({ price: { amount: 5, currency: 'ZZZ' } }).validateSync();
+      const doc = await new Doc({ price: { amount: 5, currency: 'USD' } }).save();
+      doc.set('price.currency', 'ZZZ');
+      const storedErr = await doc.validate().then(() => null, (e) => e);
+
+      expect(err?.errors['price.currency']).to.be.instanceOf(MongooseError.ValidatorError);
+      expect(storedErr?.errors['price.currency'].message).to.equal('Invalid currency code "ZZZ"');
+    });
+
+    it('should not report fields without an amount or rejected by when', () => {
+      const Doc = buildValidatedModel();
+
+      expect(new Doc({ currency: 'ZZZ' }).validateSync()).to.be.undefined;
+      expect(new Doc({ price: 10, status: 'draft' }).validateSync()).to.be.undefined;
+    });
+  });
+
+  // ── Conversion report ────────────────────────────────────────────────────
+
+  describe('conversion report', () => {
+    it('should attach the report to the document after save', async () => {
+      const Doc = addPlugin(buildSchema(), { cache: new MockCache() });
+
+      const first = await new Doc({ price: 10, currency: 'USD' }).save();
+      const second = await new Doc({ price: 5, currency: 'USD' }).save();
+
+      expect(getConversionReport(first)).to.deep.equal([
+        {
+          field: 'price',
+          targetPath: 'result',
+          status: 'converted',
+          fromCurrency: 'USD',
+          toCurrency: 'EUR',
+          rate: 2,
+          usedFallback: false,
+          cacheHit: false,
+        },
+      ]);
+      expect(second.$locals.currencyConversionReport).to.equal(getConversionReport(second));
+      expect(getConversionReport(second)?.[0].cacheHit).to.be.true;
+    });
+
+    it('should record skipped fields with the reason', async () => {
+      const Doc = addPlugin(buildSchema());
+
+      const sameCurrency = await new Doc({ price: 10, currency: 'EUR' }).save();
+      const noAmount = await new Doc({ currency: 'USD' }).save();
+
+      expect(getConversionReport(sameCurrency)?.[0]).to.include({
+        status: 'skipped',
+        reason: 'same currency',
+      });
+      expect(getConversionReport(noAmount)?.[0]).to.include({
+        status: 'skipped',
+        reason: 'no amount',
+      });
+    });
+
+    it('should record a failed rate lookup with its error', async () => {
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => { throw new Error('down'); },
+        onError: () => {},
+      });
+
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+      const [entry] = getConversionReport(doc) ?? [];
+
+      expect(entry.status).to.equal('failed');
+      expect(entry.error).to.be.instanceOf(RateFetchError);
+    });
+
+    it('should record the fallback rate', async () => {
+      const Doc = addPlugin(buildSchema(), {
+        getRate: async () => { throw new Error('down'); },
+        fallbackRate: 1.5,
+        onError: () => {},
+      });
+
+      const doc = await new Doc({ price: 10, currency: 'USD' }).save();
+
+      expect(getConversionReport(doc)?.[0]).to.include({ rate: 1.5, usedFallback: true });
+    });
+
+    it('should expose the report of an update on the query', async () => {
+      const Doc = addPlugin(buildSchema());
+      await new Doc({ price: 10, currency: 'USD' }).save();
+
+      const query = Doc.updateOne({}, { $set: { price: 20, currency: 'USD' } });
+      await query;
+
+      expect(getConversionReport(query)?.[0]).to.include({ status: 'converted', rate: 2 });
+    });
+  });
+
   // ── $setOnInsert ─────────────────────────────────────────────────────────
 
   describe('$setOnInsert (upsert)', () => {